@@ -7,8 +7,9 @@ import type { UIMessage, PluginMessage } from './types/messages.types';
 import { DEFAULT_SETTINGS, RUNNER_DEFAULT_WIDTH, RUNNER_DEFAULT_HEIGHT } from './types/messages.types';
 import * as authService from './services/auth.service';
 import * as executorService from './services/executor.service';
-import * as uiBridge from './services/ui-bridge.service';
 import * as proxyFetchService from './services/proxy-fetch.service';
+import * as clientStorageService from './services/client-storage.service';
+import * as bundleCacheService from './services/bundle-cache.service';
 
 // --- Show UI ---
 
@@ -22,10 +23,11 @@ function sendToUI(msg: PluginMessage): void {
 
 const executorCallbacks: executorService.ExecutorCallbacks = { sendToUI };
 
-// --- Boot: attempt auto-reconnect ---
+// --- Boot: drop tokens persisted by earlier versions, report the session auth ---
 
 async function boot(): Promise<void> {
   try {
+    await authService.purgeLegacyAuth();
     const stored = await authService.getStoredAuth();
     if (stored) {
       sendToUI({ type: 'AUTH_RESTORED', payload: stored });
@@ -90,34 +92,96 @@ async function handleMessage(msg: UIMessage): Promise<void> {
         break;
       }
 
+      case 'GET_PROJECT_STORAGE': {
+        const entries = await clientStorageService.listProjectEntries(msg.payload.projectId);
+        sendToUI({ type: 'PROJECT_STORAGE_DATA', payload: { projectId: msg.payload.projectId, entries } });
+        break;
+      }
+
+      case 'CLEAR_PROJECT_STORAGE': {
+        const { projectId, key } = msg.payload;
+        await clientStorageService.clearProjectEntries(projectId, key);
+        const entries = await clientStorageService.listProjectEntries(projectId);
+        sendToUI({ type: 'PROJECT_STORAGE_DATA', payload: { projectId, entries } });
+        break;
+      }
+
+      case 'CACHE_BUNDLE': {
+        const { projectId, version, name, bundle } = msg.payload;
+        const entries = await bundleCacheService.put(projectId, version, name, bundle);
+        sendToUI({ type: 'BUNDLE_CACHE_DATA', payload: { entries } });
+        break;
+      }
+
+      case 'GET_BUNDLE_CACHE': {
+        const entries = await bundleCacheService.list();
+        sendToUI({ type: 'BUNDLE_CACHE_DATA', payload: { entries } });
+        break;
+      }
+
+      case 'GET_CACHED_BUNDLE': {
+        const { projectId, version } = msg.payload;
+        try {
+          const cached = await bundleCacheService.get(projectId, version);
+          sendToUI({
+            type: 'CACHED_BUNDLE_DATA',
+            payload: { projectId, info: cached ? cached.info : null, bundle: cached ? cached.bundle : null },
+          });
+        } catch (err) {
+          // Answered to the request, a plain ERROR would leave loadCached() waiting
+          const message = err instanceof Error ? err.message : String(err);
+          sendToUI({ type: 'CACHED_BUNDLE_DATA', payload: { projectId, info: null, bundle: null, error: message } });
+        }
+        break;
+      }
+
       case 'EXECUTE_PLUGIN': {
-        executorService.execute(
-          msg.payload.codeJs,
-          msg.payload.uiHtml,
-          msg.payload.projectId,
-          executorCallbacks,
-        );
+        executorService.execute(msg.payload, executorCallbacks);
         break;
       }
 
       case 'STOP_EXECUTION': {
-        executorService.stop(executorCallbacks);
+        executorService.stop(msg.payload.executionId, executorCallbacks);
+        break;
+      }
+
+      case 'REVERT_EXECUTION': {
+        await executorService.revert(msg.payload.executionId, executorCallbacks);
         break;
       }
 
       case 'PLUGIN_UI_MESSAGE': {
-        // Forward message from plugin iframe (via Runner UI) to plugin's onmessage handler
-        uiBridge.dispatchToPlugin(msg.payload.data);
+        // Forward message from plugin iframe (via Runner UI) to the onmessage handler of its execution
+        executorService.dispatchUIMessage(msg.payload.executionId, msg.payload.data);
+        break;
+      }
+
+      case 'PARAMETER_INPUT': {
+        const { executionId, key, query, parameters } = msg.payload;
+        executorService.parameterInput(executionId, key, query, parameters);
+        break;
+      }
+
+      case 'SUBMIT_PARAMETERS': {
+        executorService.submitParameters(msg.payload.executionId, msg.payload.parameters);
+        break;
+      }
+
+      case 'NOTIFY_ACTION': {
+        executorService.notifyAction(msg.payload.executionId, msg.payload.notificationId);
         break;
       }
 
       case 'RESTORE_RUNNER_SIZE': {
-        // Restore Runner plugin window to default dimensions (called when navigating back to projects)
+        // Restore Runner plugin window to default dimensions (called when navigating back to projects).
+        // Executions keep running in their tabs.
         figma.ui.resize(RUNNER_DEFAULT_WIDTH, RUNNER_DEFAULT_HEIGHT);
-        // Clean up any lingering execution state
-        if (executorService.getExecutionId()) {
-          executorService.stop(executorCallbacks);
-        }
+        break;
+      }
+
+      case 'RESIZE_RUNNER': {
+        // Fit the Runner window to the plugin UI of the visible execution tab
+        figma.ui.resize(msg.payload.width, msg.payload.height);
         break;
       }
 
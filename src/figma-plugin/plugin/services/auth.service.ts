@@ -1,30 +1,42 @@
 // ============================================================
-// auth.service.ts - JWT persistence via figma.clientStorage
+// auth.service.ts - JWT of the session, Runner settings persistence
+//
+// The tokens are only kept in memory: executed plugin code shares
+// this sandbox and can reach the real figma.clientStorage through
+// eval or the constructor of an async function (the scoped global of
+// module-loader.service.ts is not an isolation boundary), so they are
+// never written there. The user signs in again when the Runner is
+// reopened. Settings and the last project stay in clientStorage.
+//
 // Runs in code.js sandbox (no DOM, no fetch)
 // ============================================================
 
 import type { AuthPayload, RunnerSettings } from '../types/messages.types';
 
-const STORAGE_KEY_AUTH = 'vibe_runner_auth';
+// Where earlier versions persisted the tokens: purged at boot
+const LEGACY_STORAGE_KEY_AUTH = 'vibe_runner_auth';
 const STORAGE_KEY_SETTINGS = 'vibe_runner_settings';
 const STORAGE_KEY_LAST_PROJECT = 'vibe_runner_last_project';
 
 // --- Auth ---
 
+let sessionAuth: AuthPayload | null = null;
+
 export async function storeAuth(payload: AuthPayload): Promise<void> {
-  await figma.clientStorage.setAsync(STORAGE_KEY_AUTH, payload);
+  sessionAuth = payload;
 }
 
 export async function getStoredAuth(): Promise<AuthPayload | null> {
-  const data = await figma.clientStorage.getAsync(STORAGE_KEY_AUTH);
-  if (!data || !data.access_token || !data.refresh_token || !data.user) {
-    return null;
-  }
-  return data as AuthPayload;
+  return sessionAuth;
 }
 
 export async function clearAuth(): Promise<void> {
-  await figma.clientStorage.deleteAsync(STORAGE_KEY_AUTH);
+  sessionAuth = null;
+}
+
+/** Deletes the tokens stored in clientStorage by earlier versions */
+export async function purgeLegacyAuth(): Promise<void> {
+  await figma.clientStorage.deleteAsync(LEGACY_STORAGE_KEY_AUTH);
 }
 
 // --- Settings ---
@@ -54,7 +66,8 @@ export async function getLastProject(): Promise<string | null> {
 // --- Clear all ---
 
 export async function clearAll(): Promise<void> {
-  await figma.clientStorage.deleteAsync(STORAGE_KEY_AUTH);
+  sessionAuth = null;
+  await figma.clientStorage.deleteAsync(LEGACY_STORAGE_KEY_AUTH);
   await figma.clientStorage.deleteAsync(STORAGE_KEY_SETTINGS);
   await figma.clientStorage.deleteAsync(STORAGE_KEY_LAST_PROJECT);
 }
@@ -0,0 +1,148 @@
+// ============================================================
+// bundle-cache.service.ts - Offline cache of project bundles
+//
+// Bundles loaded by the UI are kept in figma.clientStorage, keyed by
+// project and content hash (`version`, bundle-loader.ts), so a
+// project can still be run when the get_project_bundle RPC fails.
+//
+// An index (one key) lists the cached versions; each bundle is
+// stored under `vibe_bundle:<projectId>:<version>`. clientStorage is
+// small and shared with the Runner settings and the projects' own
+// keys: a project keeps its last MAX_VERSIONS_PER_PROJECT versions
+// and the least recently used versions are evicted past
+// MAX_TOTAL_SIZE.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { Bundle } from '../types/runner.types';
+import type { CachedBundleInfo } from '../types/messages.types';
+
+const STORAGE_KEY_INDEX = 'vibe_runner_bundle_cache';
+const BUNDLE_KEY_PREFIX = 'vibe_bundle:';
+const MAX_ENTRY_SIZE = 1_000_000; // serialized characters
+const MAX_TOTAL_SIZE = 3_000_000;
+const MAX_VERSIONS_PER_PROJECT = 3;
+
+export interface CachedBundle {
+  info: CachedBundleInfo;
+  bundle: Bundle;
+}
+
+function bundleKey(projectId: string, version: string): string {
+  return `${BUNDLE_KEY_PREFIX}${projectId}:${version}`;
+}
+
+async function readIndex(): Promise<CachedBundleInfo[]> {
+  const data = await figma.clientStorage.getAsync(STORAGE_KEY_INDEX);
+  return Array.isArray(data) ? (data as CachedBundleInfo[]) : [];
+}
+
+async function writeIndex(index: CachedBundleInfo[]): Promise<void> {
+  await figma.clientStorage.setAsync(STORAGE_KEY_INDEX, index);
+}
+
+// Index updates are read-modify-write: one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+/** Entries to evict so the index fits the limits; `keep` is never evicted */
+function overflow(index: CachedBundleInfo[], keep: CachedBundleInfo): CachedBundleInfo[] {
+  const evicted = new Set<CachedBundleInfo>();
+  const perProject = new Map<string, CachedBundleInfo[]>();
+  for (const entry of index) {
+    const list = perProject.get(entry.projectId) ?? [];
+    list.push(entry);
+    perProject.set(entry.projectId, list);
+  }
+  perProject.forEach((list) => {
+    list.sort((a, b) => b.cachedAt - a.cachedAt);
+    for (const entry of list.slice(MAX_VERSIONS_PER_PROJECT)) {
+      if (entry !== keep) evicted.add(entry);
+    }
+  });
+
+  let total = 0;
+  for (const entry of index) {
+    if (!evicted.has(entry)) total += entry.size;
+  }
+  const byLastUse = index.filter((e) => !evicted.has(e) && e !== keep).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const entry of byLastUse) {
+    if (total <= MAX_TOTAL_SIZE) break;
+    evicted.add(entry);
+    total -= entry.size;
+  }
+  return Array.from(evicted);
+}
+
+export function list(): Promise<CachedBundleInfo[]> {
+  return serialized(readIndex);
+}
+
+/** Caches a bundle version; returns the updated index */
+export function put(projectId: string, version: string, name: string, bundle: Bundle): Promise<CachedBundleInfo[]> {
+  return serialized(async () => {
+    const index = await readIndex();
+    const now = Date.now();
+    const existing = index.find((e) => e.projectId === projectId && e.version === version);
+    if (existing) {
+      existing.lastUsedAt = now;
+      existing.name = name;
+      await writeIndex(index);
+      return index;
+    }
+
+    const size = JSON.stringify(bundle).length;
+    if (size > MAX_ENTRY_SIZE) {
+      console.warn(`[bundle-cache] ${name}: bundle trop volumineux pour le cache (${size} > ${MAX_ENTRY_SIZE})`);
+      return index;
+    }
+
+    const entry: CachedBundleInfo = { projectId, version, name, size, cachedAt: now, lastUsedAt: now };
+    index.push(entry);
+    const evicted = overflow(index, entry);
+    for (const old of evicted) {
+      await figma.clientStorage.deleteAsync(bundleKey(old.projectId, old.version));
+    }
+    const kept = index.filter((e) => evicted.indexOf(e) === -1);
+    // Bundle first: an index entry always has its bundle
+    try {
+      await figma.clientStorage.setAsync(bundleKey(projectId, version), bundle);
+    } catch (err) {
+      // clientStorage quota reached by other keys: run uncached
+      console.warn(`[bundle-cache] ${name}: mise en cache impossible:`, err);
+      const withoutEntry = kept.filter((e) => e !== entry);
+      await writeIndex(withoutEntry);
+      return withoutEntry;
+    }
+    await writeIndex(kept);
+    return kept;
+  });
+}
+
+/** A cached version of the project, the most recently cached one by default */
+export function get(projectId: string, version?: string): Promise<CachedBundle | null> {
+  return serialized(async () => {
+    const index = await readIndex();
+    const candidates = index
+      .filter((e) => e.projectId === projectId && (version === undefined || e.version === version))
+      .sort((a, b) => b.cachedAt - a.cachedAt);
+    const info = candidates[0];
+    if (!info) return null;
+
+    const bundle = await figma.clientStorage.getAsync(bundleKey(info.projectId, info.version)) as Bundle | undefined;
+    if (!bundle) {
+      // Storage cleared behind the index
+      await writeIndex(index.filter((e) => e !== info));
+      return null;
+    }
+    info.lastUsedAt = Date.now();
+    await writeIndex(index);
+    return { info, bundle };
+  });
+}
@@ -0,0 +1,89 @@
+// ============================================================
+// client-storage.service.ts - Per-project figma.clientStorage
+//
+// Executed plugins share the Runner's clientStorage, which also
+// holds the Runner's own keys (settings, bundle cache...). Plugin
+// code gets a namespaced view instead: every key is stored as
+// `vibe_project:<projectId>:<key>`, so runner keys (auth.service.ts)
+// and other projects' keys are out of reach of figma.clientStorage.
+//
+// This is a namespace, not an isolation boundary: the scoped global
+// (module-loader.service.ts) keeps `globalThis.figma` on the proxy,
+// but plugin code reaching the real figma through `(0, eval)` or
+// a function constructor can still read and write every key. The
+// auth tokens are never stored here for that reason.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { StorageEntry } from '../types/messages.types';
+
+const PROJECT_KEY_PREFIX = 'vibe_project:';
+const PREVIEW_LENGTH = 80;
+
+function prefixFor(projectId: string): string {
+  return `${PROJECT_KEY_PREFIX}${projectId}:`;
+}
+
+async function projectStorageKeys(projectId: string): Promise<string[]> {
+  const prefix = prefixFor(projectId);
+  const keys = await figma.clientStorage.keysAsync();
+  return keys.filter((k) => k.indexOf(prefix) === 0);
+}
+
+/** clientStorage exposed to a project's plugin code */
+export function createProjectStorage(projectId: string): ClientStorageAPI {
+  const prefix = prefixFor(projectId);
+
+  return {
+    getAsync(key: string): Promise<any> {
+      return figma.clientStorage.getAsync(prefix + key);
+    },
+
+    setAsync(key: string, value: any): Promise<void> {
+      return figma.clientStorage.setAsync(prefix + key, value);
+    },
+
+    deleteAsync(key: string): Promise<void> {
+      return figma.clientStorage.deleteAsync(prefix + key);
+    },
+
+    async keysAsync(): Promise<string[]> {
+      const keys = await projectStorageKeys(projectId);
+      return keys.map((k) => k.slice(prefix.length));
+    },
+  };
+}
+
+// --- Inspection from the Runner UI ---
+
+export async function listProjectEntries(projectId: string): Promise<StorageEntry[]> {
+  const prefix = prefixFor(projectId);
+  const entries: StorageEntry[] = [];
+  for (const storageKey of await projectStorageKeys(projectId)) {
+    const value = await figma.clientStorage.getAsync(storageKey);
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(value) ?? String(value);
+    } catch {
+      serialized = String(value);
+    }
+    entries.push({
+      key: storageKey.slice(prefix.length),
+      size: serialized.length,
+      preview: serialized.length > PREVIEW_LENGTH ? `${serialized.slice(0, PREVIEW_LENGTH)}...` : serialized,
+    });
+  }
+  return entries.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** Deletes one key of the project, or all of them when `key` is omitted */
+export async function clearProjectEntries(projectId: string, key?: string): Promise<void> {
+  if (key !== undefined) {
+    await figma.clientStorage.deleteAsync(prefixFor(projectId) + key);
+    return;
+  }
+  for (const storageKey of await projectStorageKeys(projectId)) {
+    await figma.clientStorage.deleteAsync(storageKey);
+  }
+}
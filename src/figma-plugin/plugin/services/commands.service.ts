@@ -0,0 +1,94 @@
+// ============================================================
+// commands.service.ts - manifest `menu` / `parameters`
+//
+// Figma launches a plugin through one of its menu commands
+// (figma.command) and, when the command declares parameters,
+// collects their values with the quick-action input before firing
+// figma.on('run', { command, parameters }). The Runner lists the
+// same commands so one can be picked on the Execution screen.
+//
+// Pure functions: used by ui.html (bundle validation, command list).
+// ============================================================
+
+import type { ManifestConfig, ManifestMenuItem, ManifestParameter, PluginCommand } from '../types/runner.types';
+
+function validateParameters(raw: unknown, field: string): string[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) return [`${field} doit etre une liste`];
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  raw.forEach((p, i) => {
+    const param = p as Partial<ManifestParameter> | null;
+    if (!param || typeof param !== 'object') {
+      errors.push(`${field}[${i}] invalide`);
+      return;
+    }
+    if (typeof param.name !== 'string' || !param.name) errors.push(`${field}[${i}].name manquant`);
+    if (typeof param.key !== 'string' || !param.key) {
+      errors.push(`${field}[${i}].key manquant`);
+    } else if (keys.has(param.key)) {
+      errors.push(`${field}: cle "${param.key}" en double`);
+    } else {
+      keys.add(param.key);
+    }
+  });
+  return errors;
+}
+
+function validateMenu(raw: unknown, field: string): string[] {
+  if (!Array.isArray(raw)) return [`${field} doit etre une liste`];
+  const errors: string[] = [];
+  raw.forEach((item, i) => {
+    const entry = item as Record<string, unknown> | null;
+    const path = `${field}[${i}]`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${path} invalide`);
+    } else if (entry.separator === true) {
+      // nothing to check
+    } else if (typeof entry.name !== 'string' || !entry.name) {
+      errors.push(`${path}.name manquant`);
+    } else if (entry.menu !== undefined) {
+      errors.push(...validateMenu(entry.menu, `${path}.menu`));
+    } else if (typeof entry.command !== 'string' || !entry.command) {
+      errors.push(`${path}.command manquant`);
+    } else {
+      errors.push(...validateParameters(entry.parameters, `${path}.parameters`));
+    }
+  });
+  return errors;
+}
+
+/** Errors of manifest `menu` / `parameters`, empty when valid */
+export function validateCommands(manifest: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  if (manifest.menu !== undefined) errors.push(...validateMenu(manifest.menu, 'menu'));
+  errors.push(...validateParameters(manifest.parameters, 'parameters'));
+  return errors;
+}
+
+function flatten(items: ManifestMenuItem[], prefix: string, out: PluginCommand[]): void {
+  for (const item of items) {
+    if ('separator' in item) continue;
+    const label = prefix ? `${prefix} / ${item.name}` : item.name;
+    if ('menu' in item) {
+      flatten(item.menu, label, out);
+    } else {
+      out.push({
+        command: item.command,
+        label,
+        parameters: item.parameters && item.parameters.length > 0 ? item.parameters : null,
+      });
+    }
+  }
+}
+
+/** Commands of the manifest, or the single unnamed command of a plugin without menu */
+export function listCommands(manifest: ManifestConfig): PluginCommand[] {
+  if (manifest.menu && manifest.menu.length > 0) {
+    const commands: PluginCommand[] = [];
+    flatten(manifest.menu, '', commands);
+    return commands;
+  }
+  const parameters = manifest.parameters && manifest.parameters.length > 0 ? manifest.parameters : null;
+  return [{ command: '', label: manifest.name, parameters }];
+}
@@ -1,29 +1,39 @@
 // ============================================================
-// console.service.ts - Override console.log/warn/error to capture logs
+// console.service.ts - Per-execution console capturing logs
 // US-RUN-06: cap at MAX_LOGS per execution, stack traces for errors
+//
+// Each execution gets its own console object, injected into plugin
+// code (and used by the Runner services acting for that execution),
+// so concurrent runs never mix their logs. The global console is
+// left untouched.
+//
 // Runs in code.js sandbox (no DOM, no fetch)
 // ============================================================
 
+import type { LogSource } from '../types/runner.types';
+
 export type LogLevel = 'info' | 'warn' | 'error';
 
 export interface CapturedLog {
   level: LogLevel;
   message: string;
   timestamp: number;
-  source: 'console' | 'error' | 'unhandled';
+  source: LogSource;
   stackTrace?: string;
 }
 
 type LogCallback = (log: CapturedLog) => void;
 
-const MAX_LOGS_PER_EXECUTION = 1000;
+/** What Runner services need to log on behalf of an execution */
+export type RunLogger = Pick<Console, 'log' | 'warn' | 'error'>;
 
-let originalLog: typeof console.log | null = null;
-let originalWarn: typeof console.warn | null = null;
-let originalError: typeof console.error | null = null;
-let isOverridden = false;
-let logCount = 0;
-let capReached = false;
+export interface ExecutionConsole extends RunLogger {
+  info: Console['info'];
+  debug: Console['debug'];
+  getLogCount: () => number;
+}
+
+const MAX_LOGS_PER_EXECUTION = 1000;
 
 function serialize(...args: unknown[]): string {
   return args
@@ -47,84 +57,47 @@ function extractStack(args: unknown[]): string | undefined {
   return undefined;
 }
 
-function checkCap(callback: LogCallback): boolean {
-  if (capReached) return true;
-  if (logCount >= MAX_LOGS_PER_EXECUTION) {
-    capReached = true;
-    callback({
-      level: 'warn',
-      message: `[Runner] Limite de ${MAX_LOGS_PER_EXECUTION} logs atteinte \u2014 logs suivants ignores.`,
-      timestamp: Date.now(),
-      source: 'console',
-    });
-    return true;
+export function createConsole(callback: LogCallback): ExecutionConsole {
+  let logCount = 0;
+  let capReached = false;
+
+  function checkCap(): boolean {
+    if (capReached) return true;
+    if (logCount >= MAX_LOGS_PER_EXECUTION) {
+      capReached = true;
+      callback({
+        level: 'warn',
+        message: `[Runner] Limite de ${MAX_LOGS_PER_EXECUTION} logs atteinte \u2014 logs suivants ignores.`,
+        timestamp: Date.now(),
+        source: 'console',
+      });
+      return true;
+    }
+    return false;
   }
-  return false;
-}
-
-export function override(callback: LogCallback): void {
-  if (isOverridden) return;
-
-  logCount = 0;
-  capReached = false;
-
-  originalLog = console.log;
-  originalWarn = console.warn;
-  originalError = console.error;
 
-  console.log = (...args: unknown[]) => {
-    originalLog?.apply(console, args);
-    if (checkCap(callback)) return;
-    logCount++;
-    callback({
-      level: 'info',
-      message: serialize(...args),
-      timestamp: Date.now(),
-      source: 'console',
-    });
-  };
-
-  console.warn = (...args: unknown[]) => {
-    originalWarn?.apply(console, args);
-    if (checkCap(callback)) return;
-    logCount++;
-    callback({
-      level: 'warn',
-      message: serialize(...args),
-      timestamp: Date.now(),
-      source: 'console',
-    });
-  };
-
-  console.error = (...args: unknown[]) => {
-    originalError?.apply(console, args);
-    if (checkCap(callback)) return;
-    logCount++;
-    callback({
-      level: 'error',
-      message: serialize(...args),
-      timestamp: Date.now(),
-      source: 'console',
-      stackTrace: extractStack(args),
-    });
-  };
-
-  isOverridden = true;
-}
-
-export function restore(): void {
-  if (!isOverridden) return;
-
-  if (originalLog) console.log = originalLog;
-  if (originalWarn) console.warn = originalWarn;
-  if (originalError) console.error = originalError;
-
-  originalLog = null;
-  originalWarn = null;
-  originalError = null;
-  isOverridden = false;
-}
+  function capture(level: LogLevel, original: (...args: unknown[]) => void) {
+    return (...args: unknown[]) => {
+      original.apply(console, args);
+      if (checkCap()) return;
+      logCount++;
+      callback({
+        level,
+        message: serialize(...args),
+        timestamp: Date.now(),
+        source: 'console',
+        stackTrace: level === 'error' ? extractStack(args) : undefined,
+      });
+    };
+  }
 
-export function getLogCount(): number {
-  return logCount;
+  // Other methods (table, group, time...) fall through to the real console
+  const execConsole = Object.create(console) as ExecutionConsole;
+  execConsole.log = capture('info', console.log);
+  execConsole.info = capture('info', console.info || console.log);
+  execConsole.debug = capture('info', console.debug || console.log);
+  execConsole.warn = capture('warn', console.warn);
+  execConsole.error = capture('error', console.error);
+  execConsole.getLogCount = () => logCount;
+  return execConsole;
 }
@@ -0,0 +1,290 @@
+// ============================================================
+// dry-run.service.ts - Recording figma API for dry runs
+//
+// In a dry run the figma proxy (ui-bridge.service.ts) hands every
+// method call and property set to this recorder instead of the real
+// API when it would change the document:
+//   - reads (get*, find*, load*...) still go to the real document
+//   - mutations are recorded and skipped; calls that would create
+//     nodes return "virtual" nodes so plugin code can keep going
+// Every call ends up in an ordered trace streamed to the UI. Styles,
+// variables and variable collections go through the same hooks as
+// nodes: style.remove() or variable.setValueForMode() are skipped too.
+//
+// Read modes:
+//   - document: reads always see the live document, writes of the
+//     run are invisible
+//   - snapshot: the first read of a (node, property) is frozen for
+//     the rest of the run and the run's own writes are layered on top
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { PluginMessage } from '../types/messages.types';
+import type { DryRunReadMode, TraceEntry } from '../types/runner.types';
+
+const FLUSH_DELAY_MS = 100;
+const MAX_TRACE_ENTRIES = 5000;
+const MAX_ARG_LENGTH = 120;
+const VIRTUAL_ID_PREFIX = 'dry-run:';
+
+// Calls that leave the document untouched and are executed for real
+const READ_METHODS = /^(get|find|load|export|is|has|keys|list|read)([A-Z]\w*)?$/;
+const PASSTHROUGH_METHODS = ['on', 'once', 'off', 'notify', 'base64Encode', 'base64Decode', 'rgb', 'rgba', 'solidPaint', 'normalizeMarkdown'];
+const CREATING_METHODS = /^(create[A-Z]\w*|clone|group|flatten|union|subtract|intersect|exclude|combineAsVariants)$/;
+const NON_NODE_CREATES = /^create(Image|Video|Gif)/;
+// Unknown members of a virtual node that look like methods become recorded no-ops
+const METHOD_LIKE = /^(set|get|find|insert|delete|remove|export|load|append|resize|rescale|swap|detach|reset)[A-Z]?\w*$/;
+
+const CREATED_TYPES: Record<string, string> = {
+  group: 'GROUP',
+  flatten: 'VECTOR',
+  union: 'BOOLEAN_OPERATION',
+  subtract: 'BOOLEAN_OPERATION',
+  intersect: 'BOOLEAN_OPERATION',
+  exclude: 'BOOLEAN_OPERATION',
+  combineAsVariants: 'COMPONENT_SET',
+  createNodeFromSvg: 'FRAME',
+  createComponentFromNode: 'COMPONENT',
+};
+
+/** Document objects the figma proxy wraps: their methods and property sets go through the recorder */
+export type DocumentObject = BaseNode | BaseStyle | Variable | VariableCollection;
+
+export interface DryRunRecorder {
+  readMode: DryRunReadMode;
+  /** True when the call would change the document (skipped in a dry run) */
+  isMutation: (method: string) => boolean;
+  isVirtual: (value: unknown) => boolean;
+  /** target: a document object, null for the figma global, or a `figma.<namespace>` label */
+  recordCall: (target: DocumentObject | string | null, method: string, args: unknown[], applied: boolean) => void;
+  recordSet: (target: DocumentObject | string | null, prop: string, value: unknown, applied: boolean) => void;
+  /** Stand-in result for a skipped call (virtual node, image, promise...) */
+  fakeResult: (target: DocumentObject | null, method: string) => unknown;
+  /** Property read honoring the read mode */
+  read: (target: DocumentObject | null, prop: string, readReal: () => unknown) => unknown;
+  /** Remembers a skipped write so snapshot reads see it */
+  write: (target: DocumentObject | null, prop: string, value: unknown) => void;
+  flush: () => void;
+}
+
+interface DryRunOptions {
+  readMode: DryRunReadMode;
+  executionId: string;
+  sendToUI: (msg: PluginMessage) => void;
+}
+
+function isNodeLike(value: unknown): value is BaseNode {
+  return !!value && typeof value === 'object'
+    && typeof (value as BaseNode).id === 'string'
+    && typeof (value as BaseNode).type === 'string'
+    && 'parent' in value;
+}
+
+function isDocumentObject(value: unknown): value is DocumentObject {
+  return isNodeLike(value) || (!!value && typeof value === 'object'
+    && typeof (value as DocumentObject).id === 'string'
+    && typeof (value as DocumentObject).remove === 'function');
+}
+
+// Variables and collections have no `type`
+function objectType(value: DocumentObject): string {
+  if ('type' in value && typeof value.type === 'string') return isNodeLike(value) ? value.type : `${value.type}_STYLE`;
+  return 'resolvedType' in value ? 'VARIABLE' : 'VARIABLE_COLLECTION';
+}
+
+function describeNode(node: DocumentObject): string {
+  return `${objectType(node)} "${node.name}" (${node.id})`;
+}
+
+function describeTarget(target: DocumentObject | string | null): string {
+  if (target === null) return 'figma';
+  if (typeof target === 'string') return target;
+  return describeNode(target);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'function') return 'fn';
+  if (isDocumentObject(value)) return `<${describeNode(value)}>`;
+  if (value === undefined) return 'undefined';
+  try {
+    const json = JSON.stringify(value, (_key, v) => {
+      if (isDocumentObject(v)) return `<${describeNode(v)}>`;
+      if (typeof v === 'function') return 'fn';
+      if (v instanceof Uint8Array) return `<Uint8Array ${v.length}>`;
+      return v;
+    });
+    const text = json === undefined ? String(value) : json;
+    return text.length > MAX_ARG_LENGTH ? `${text.slice(0, MAX_ARG_LENGTH)}...` : text;
+  } catch {
+    return String(value);
+  }
+}
+
+function createdType(target: DocumentObject | null, method: string): string {
+  if (method === 'clone' && target) return objectType(target);
+  if (CREATED_TYPES[method]) return CREATED_TYPES[method];
+  return method
+    .replace(/^create/, '')
+    .replace(/Async$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toUpperCase();
+}
+
+function titleCase(type: string): string {
+  return type.charAt(0) + type.slice(1).toLowerCase().replace(/_/g, ' ');
+}
+
+export function createDryRunRecorder(options: DryRunOptions): DryRunRecorder {
+  const { readMode, executionId, sendToUI } = options;
+  const virtualNodes = new WeakSet<object>();
+  const snapshot = new Map<string, unknown>();
+  let buffer: TraceEntry[] = [];
+  let seq = 0;
+  let dropped = 0;
+  let flushHandle: ReturnType<typeof setTimeout> | null = null;
+  let virtualCount = 0;
+
+  function flush(): void {
+    if (flushHandle !== null) {
+      clearTimeout(flushHandle);
+      flushHandle = null;
+    }
+    if (buffer.length === 0 && dropped === 0) return;
+    sendToUI({
+      type: 'DRY_RUN_TRACE',
+      payload: { executionId, entries: buffer, dropped },
+    });
+    buffer = [];
+  }
+
+  function push(entry: Omit<TraceEntry, 'seq' | 'timestamp'>): void {
+    seq++;
+    if (seq > MAX_TRACE_ENTRIES) {
+      dropped++;
+    } else {
+      buffer.push({ ...entry, seq, timestamp: Date.now() });
+    }
+    if (flushHandle === null) {
+      flushHandle = setTimeout(flush, FLUSH_DELAY_MS);
+    }
+  }
+
+  function createVirtualNode(type: string, source: DocumentObject | null): BaseNode {
+    virtualCount++;
+    const pluginData = new Map<string, string>();
+    const state: Record<string, unknown> = {
+      id: `${VIRTUAL_ID_PREFIX}${virtualCount}`,
+      type,
+      name: source ? source.name : titleCase(type),
+      parent: null,
+      removed: false,
+      visible: true,
+      locked: false,
+      children: [],
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      rotation: 0,
+      opacity: 1,
+      fills: [],
+      strokes: [],
+    };
+    if (type === 'TEXT') state.characters = '';
+
+    const node = new Proxy(state, {
+      get(target, prop) {
+        if (prop in target) return target[prop as string];
+        if (typeof prop === 'string' && METHOD_LIKE.test(prop)) {
+          return (..._args: unknown[]) => (/Async$/.test(prop) ? Promise.resolve(undefined) : undefined);
+        }
+        return undefined;
+      },
+    }) as unknown as BaseNode;
+
+    const children = state.children as BaseNode[];
+    const attach = (child: unknown, index: number) => {
+      if (!isNodeLike(child)) return;
+      if (virtualNodes.has(child)) (child as any).parent = node;
+      children.splice(Math.min(index, children.length), 0, child);
+    };
+    Object.assign(state, {
+      appendChild: (child: unknown) => attach(child, children.length),
+      insertChild: (index: number, child: unknown) => attach(child, index),
+      remove: () => { state.removed = true; },
+      resize: (w: number, h: number) => { state.width = w; state.height = h; },
+      resizeWithoutConstraints: (w: number, h: number) => { state.width = w; state.height = h; },
+      clone: () => createVirtualNode(type, node),
+      findAll: () => [],
+      findOne: () => null,
+      findChildren: () => [],
+      findChild: () => null,
+      setPluginData: (key: string, value: string) => { pluginData.set(key, value); },
+      getPluginData: (key: string) => pluginData.get(key) ?? '',
+      getPluginDataKeys: () => Array.from(pluginData.keys()),
+    });
+
+    virtualNodes.add(node);
+    return node;
+  }
+
+  return {
+    readMode,
+
+    isMutation(method: string): boolean {
+      return !READ_METHODS.test(method) && PASSTHROUGH_METHODS.indexOf(method) === -1;
+    },
+
+    isVirtual(value: unknown): boolean {
+      return !!value && typeof value === 'object' && virtualNodes.has(value);
+    },
+
+    recordCall(target, method, args, applied): void {
+      push({
+        kind: 'call',
+        target: describeTarget(target),
+        name: method,
+        args: args.map(formatValue).join(', '),
+        applied,
+      });
+    },
+
+    recordSet(target, prop, value, applied): void {
+      push({
+        kind: 'set',
+        target: describeTarget(target),
+        name: prop,
+        args: formatValue(value),
+        applied,
+      });
+    },
+
+    fakeResult(target: DocumentObject | null, method: string): unknown {
+      let result: unknown;
+      if (NON_NODE_CREATES.test(method)) {
+        virtualCount++;
+        result = { hash: `${VIRTUAL_ID_PREFIX}${virtualCount}` };
+      } else if (CREATING_METHODS.test(method) || /^create[A-Z]\w*Async$/.test(method)) {
+        result = createVirtualNode(createdType(target, method), method === 'clone' ? target : null);
+      }
+      return /Async$/.test(method) ? Promise.resolve(result) : result;
+    },
+
+    read(target: DocumentObject | null, prop: string, readReal: () => unknown): unknown {
+      if (readMode !== 'snapshot') return readReal();
+      const key = `${target ? target.id : 'figma'}:${prop}`;
+      if (snapshot.has(key)) return snapshot.get(key);
+      const value = readReal();
+      if (typeof value !== 'function') snapshot.set(key, value);
+      return value;
+    },
+
+    write(target: DocumentObject | null, prop: string, value: unknown): void {
+      if (readMode !== 'snapshot') return;
+      snapshot.set(`${target ? target.id : 'figma'}:${prop}`, value);
+    },
+
+    flush,
+  };
+}
@@ -0,0 +1,151 @@
+// ============================================================
+// events.service.ts - figma.on / once / off for plugin code
+//
+// Plugin handlers are never bound to the real `figma` directly:
+// each one is registered through a Runner listener kept in a
+// per-execution registry, so everything can be unregistered when
+// the run ends. Like Figma closing a plugin, teardown fires the
+// plugin's `close` handlers once before removing all listeners.
+// `globalThis.figma.on(...)` lands here as well: the global object
+// seen by plugin code resolves `figma` to the run's proxy
+// (module-loader.service.ts).
+//
+// `run` is synthetic: the Runner itself fires it (emit) once the
+// script is loaded and the command parameters are known, the real
+// figma `run` event belongs to the Runner plugin.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { ListenerInfo } from '../types/messages.types';
+import type { RunLogger } from './console.service';
+
+type Handler = (...args: unknown[]) => unknown;
+
+interface Registration {
+  event: string;
+  handler: Handler;
+  listener: (...args: unknown[]) => Promise<unknown> | undefined;
+}
+
+// Events that never call plugin code again once the script is done
+const LIFECYCLE_EVENTS = ['run', 'close'];
+// Events fired by the Runner, never registered on the real figma
+const SYNTHETIC_EVENTS = ['run'];
+
+export interface EventRegistry {
+  on: (event: string, handler: Handler) => void;
+  once: (event: string, handler: Handler) => void;
+  off: (event: string, handler: Handler) => void;
+  list: () => ListenerInfo[];
+  /** True while a listener can still call plugin code (selectionchange...) */
+  hasActiveListeners: () => boolean;
+  /** Unregisters everything, after firing `close` handlers when asked */
+  teardown: (fireClose: boolean) => void;
+  /** Fires a synthetic event; the promise (only when handlers are async) resolves once they settle */
+  emit: (event: string, ...args: unknown[]) => Promise<void> | undefined;
+}
+
+interface EventRegistryOptions {
+  /** Maps event arguments before they reach plugin code (node wrapping) */
+  wrapArgs: (args: unknown[]) => unknown[];
+  logger: RunLogger;
+  onActivity?: () => void;
+  onChange?: (listeners: ListenerInfo[]) => void;
+}
+
+export function createEventRegistry(options: EventRegistryOptions): EventRegistry {
+  const registrations: Registration[] = [];
+
+  function list(): ListenerInfo[] {
+    const counts = new Map<string, number>();
+    for (const r of registrations) {
+      counts.set(r.event, (counts.get(r.event) ?? 0) + 1);
+    }
+    return Array.from(counts, ([event, count]) => ({ event, count }));
+  }
+
+  function notify(): void {
+    options.onChange?.(list());
+  }
+
+  function invoke(event: string, handler: Handler, args: unknown[]): Promise<unknown> | undefined {
+    try {
+      const result = handler(...options.wrapArgs(args));
+      if (result && typeof (result as Promise<unknown>).then === 'function') {
+        return (result as Promise<unknown>).then(undefined, (err: unknown) => {
+          options.logger.error(`[Runner] Erreur dans le listener figma.on('${event}'):`, err);
+        });
+      }
+    } catch (err) {
+      options.logger.error(`[Runner] Erreur dans le listener figma.on('${event}'):`, err);
+    }
+    return undefined;
+  }
+
+  function remove(registration: Registration): void {
+    const index = registrations.indexOf(registration);
+    if (index === -1) return;
+    registrations.splice(index, 1);
+    if (SYNTHETIC_EVENTS.indexOf(registration.event) === -1) {
+      figma.off(registration.event as any, registration.listener as any);
+    }
+  }
+
+  function add(event: string, handler: Handler, once: boolean): void {
+    const registration: Registration = {
+      event,
+      handler,
+      listener: (...args: unknown[]) => {
+        if (once) {
+          remove(registration);
+          notify();
+        }
+        options.onActivity?.();
+        return invoke(event, handler, args);
+      },
+    };
+    // Throws like Figma for unknown event types, before anything is recorded
+    if (SYNTHETIC_EVENTS.indexOf(event) === -1) {
+      figma.on(event as any, registration.listener as any);
+    }
+    registrations.push(registration);
+    notify();
+  }
+
+  return {
+    on: (event, handler) => add(event, handler, false),
+    once: (event, handler) => add(event, handler, true),
+
+    off(event: string, handler: Handler): void {
+      const matches = registrations.filter((r) => r.event === event && r.handler === handler);
+      if (matches.length === 0) return;
+      matches.forEach(remove);
+      notify();
+    },
+
+    list,
+
+    hasActiveListeners(): boolean {
+      return registrations.some((r) => LIFECYCLE_EVENTS.indexOf(r.event) === -1);
+    },
+
+    teardown(fireClose: boolean): void {
+      const closing = fireClose ? registrations.filter((r) => r.event === 'close') : [];
+      for (const r of registrations.slice()) {
+        remove(r);
+      }
+      for (const r of closing) {
+        invoke('close', r.handler, []);
+      }
+    },
+
+    emit(event: string, ...args: unknown[]): Promise<void> | undefined {
+      const pending = registrations
+        .filter((r) => r.event === event)
+        .map((r) => r.listener(...args))
+        .filter((result): result is Promise<unknown> => result !== undefined);
+      return pending.length > 0 ? Promise.all(pending).then(() => undefined) : undefined;
+    },
+  };
+}
@@ -1,25 +1,105 @@
 // ============================================================
 // executor.service.ts - Dynamic plugin execution (US-RUN-04/05)
+//
+// An execution has two phases:
+//   1. script  - the entry module's top-level code (and its promise)
+//   2. session - lasts while the plugin keeps a UI open, figma.on()
+//                listeners or pending timers; it ends on
+//                figma.closePlugin(), Stop, or the idle timeout
+// EXECUTION_SCRIPT_DONE marks the end of phase 1 when a session
+// remains open, EXECUTION_DONE the end of the whole execution.
+//
+// When a run is over its figma proxy is revoked and `__runSignal__`
+// (run-signal.service.ts) aborts, with the reason as message.
+//
+// Like Figma, the plugin's figma.on('run') handlers are called with the
+// picked menu command once the script has run, or once the user has
+// entered the command parameters (PARAMETER_INPUT / SUBMIT_PARAMETERS).
+//
+// Every figma API access of a run is counted and timed
+// (profiler.service.ts); the profile is sent as EXECUTION_PROFILE
+// when the run ends.
+//
+// A dry run executes the same way but records figma API calls
+// (DRY_RUN_TRACE) instead of changing the document; it has no journal.
+//
+// Several executions can run side by side (one per project): each has
+// its own figma proxy, UI message handler, console, timers and pending
+// fetches, and every message it sends carries its executionId.
+//
 // Runs in code.js sandbox: has figma.* API, NO DOM, NO fetch
 // ============================================================
 
 import * as consoleService from './console.service';
-import type { CapturedLog } from './console.service';
+import type { CapturedLog, ExecutionConsole } from './console.service';
 import * as uiBridge from './ui-bridge.service';
+import type { UIBridge } from './ui-bridge.service';
 import * as proxyFetchService from './proxy-fetch.service';
-import type { PluginMessage } from '../types/messages.types';
+import * as fetchApiService from './fetch-api.service';
+import * as networkAccessService from './network-access.service';
+import * as clientStorageService from './client-storage.service';
+import * as timersService from './timers.service';
+import type { ExecutionTimers } from './timers.service';
+import * as notifyService from './notify.service';
+import type { Notifier } from './notify.service';
+import * as parametersService from './parameters.service';
+import type { PluginParameters } from './parameters.service';
+import * as runSignalService from './run-signal.service';
+import type { RunController } from './run-signal.service';
+import * as moduleLoader from './module-loader.service';
+import * as stackMapperService from './stack-mapper.service';
+import type { StackMapper } from './stack-mapper.service';
+import * as journalService from './journal.service';
+import type { RunJournal } from './journal.service';
+import * as dryRunService from './dry-run.service';
+import * as profilerService from './profiler.service';
+import type { Profiler } from './profiler.service';
+import type { DryRunRecorder } from './dry-run.service';
+import type { StackFrame } from '../types/runner.types';
+import type { PluginMessage, ExecutePluginPayload } from '../types/messages.types';
 
-const EXECUTION_TIMEOUT_MS = 60_000; // 60 seconds
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000; // 60 seconds without activity
+const IDLE_CHECK_INTERVAL_MS = 1_000;
+const MAX_KEPT_JOURNALS = 10; // runs that can still be reverted
 
-// Default Runner plugin window dimensions (must match controller.ts showUI call)
-const RUNNER_DEFAULT_WIDTH = 360;
-const RUNNER_DEFAULT_HEIGHT = 480;
+// Messages of the errors thrown to plugin code that outlives its run
+const REASON_ENDED = 'Run has ended';
+const REASON_STOPPED = 'Run was cancelled (stopped)';
+const REASON_TIMEOUT = 'Run was cancelled (idle timeout)';
+const REASON_REPLACED = 'Run was cancelled (replaced by a new run)';
 
-// --- Active execution state ---
+// --- Active executions ---
 
-let currentExecutionId: string | null = null;
-let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
-let aborted = false;
+interface Execution {
+  id: string;
+  projectId: string;
+  startTime: number;
+  callbacks: ExecutorCallbacks;
+  aborted: boolean;
+  scriptFinished: boolean;
+  /** figma.command, given to `run` handlers */
+  command: string;
+  /** Parameters of the command still to be entered in the Runner UI */
+  awaitingParameters: boolean;
+  /** The `run` event is not fired yet, or its handlers have not settled */
+  runPending: boolean;
+  parameters: PluginParameters;
+  lastActivityAt: number;
+  idleCheckHandle: ReturnType<typeof setInterval> | null;
+  console: ExecutionConsole;
+  notifier: Notifier;
+  bridge: UIBridge;
+  timers: ExecutionTimers;
+  run: RunController;
+  dryRun: DryRunRecorder | null;
+  profiler: Profiler;
+  stackMapper: StackMapper;
+}
+
+const executions = new Map<string, Execution>();
+
+// Journals of the last runs, kept after they end for "Revert this run"
+const journals = new Map<string, RunJournal>();
 
 // --- UUID v4 generator (no crypto.randomUUID in Figma sandbox) ---
 
@@ -37,28 +117,44 @@ export interface ExecutorCallbacks {
   sendToUI: (msg: PluginMessage) => void;
 }
 
-export function execute(
-  codeJs: string,
-  uiHtml: string,
-  projectId: string,
-  callbacks: ExecutorCallbacks,
-): void {
-  if (currentExecutionId) {
-    fullCleanup();
+export function execute(payload: ExecutePluginPayload, callbacks: ExecutorCallbacks): void {
+  const { projectId, mainPath, uiHtml, uiFiles, files } = payload;
+  const idleTimeoutMs = payload.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+
+  // One execution per project: re-running replaces the previous one
+  for (const other of Array.from(executions.values())) {
+    if (other.projectId === projectId) {
+      fullCleanup(other, REASON_REPLACED);
+    }
   }
 
   const executionId = uuidv4();
-  currentExecutionId = executionId;
-  aborted = false;
   const startTime = Date.now();
 
+  const dryRun = payload.dryRun
+    ? dryRunService.createDryRunRecorder({ readMode: payload.dryRun, executionId, sendToUI: callbacks.sendToUI })
+    : undefined;
+
+  const journal = dryRun ? undefined : journalService.createJournal();
+  if (journal) {
+    journals.set(executionId, journal);
+    if (journals.size > MAX_KEPT_JOURNALS) {
+      journals.delete(journals.keys().next().value as string);
+    }
+  }
+  const profiler = profilerService.createProfiler();
+
   callbacks.sendToUI({
     type: 'EXECUTION_STARTED',
-    payload: { executionId, projectId },
+    payload: { executionId, projectId, idleTimeoutMs },
   });
 
-  consoleService.override((log: CapturedLog) => {
-    if (aborted || currentExecutionId !== executionId) return;
+  const stackMapper = stackMapperService.createStackMapper(files);
+
+  const sendLog = (log: CapturedLog) => {
+    if (!isLive(execution)) return;
+    markActivity(execution);
+    const mapped = stackMapper.mapStack(log.stackTrace);
     callbacks.sendToUI({
       type: 'EXECUTION_LOG',
       payload: {
@@ -67,121 +163,206 @@ export function execute(
         message: log.message,
         timestamp: log.timestamp,
         source: log.source,
-        stackTrace: log.stackTrace,
+        stackTrace: mapped.stack,
+        stackFrames: mapped.frames.length > 0 ? mapped.frames : undefined,
       },
     });
+  };
+  const execConsole = consoleService.createConsole(sendLog);
+  const notifier = notifyService.createNotifier({
+    executionId,
+    sendToUI: callbacks.sendToUI,
+    onLog: sendLog,
+    logger: execConsole,
   });
 
-  const figmaProxy = uiBridge.createFigmaProxy({
+  const command = payload.command ?? '';
+  const parameters = parametersService.createParameters({
+    executionId,
     sendToUI: callbacks.sendToUI,
-    getExecutionId: () => currentExecutionId,
-    onResizeRunner: (width: number, height: number) => {
-      try {
-        figma.ui.resize(width, height);
-      } catch (e) {
-        // Ignore resize errors
-      }
-    },
-    onClosePlugin: () => {
-      if (currentExecutionId === executionId && !aborted) {
-        const duration = Date.now() - startTime;
+    logger: execConsole,
+  });
+
+  const bridge = uiBridge.createUIBridge({
+    sendToUI: callbacks.sendToUI,
+    getExecutionId: () => (executions.has(executionId) ? executionId : null),
+    logger: execConsole,
+    onClosePlugin: (message?: string) => {
+      if (isLive(execution)) {
+        // Like Figma, the closing message is shown as a notification
+        if (message !== undefined && message !== '') {
+          notifier.notify(message);
+        }
         callbacks.sendToUI({
           type: 'PLUGIN_UI_CLOSE',
           payload: { executionId },
         });
-        fullCleanup();
-        callbacks.sendToUI({
-          type: 'EXECUTION_DONE',
-          payload: { executionId, duration },
-        });
+        endSession(execution);
+      }
+    },
+    onActivity: () => markActivity(execution),
+    onAsyncSettled: () => {
+      if (execution.scriptFinished && isLive(execution)) {
+        endSessionIfIdle(execution);
+      }
+    },
+    notifier,
+    command,
+    parameters: parameters.api,
+    journal,
+    dryRun,
+    profiler,
+    clientStorage: clientStorageService.createProjectStorage(projectId),
+    onListenersChange: (listeners) => {
+      if (!isLive(execution)) return;
+      callbacks.sendToUI({
+        type: 'EXECUTION_LISTENERS',
+        payload: { executionId, listeners },
+      });
+      if (execution.scriptFinished) {
+        endSessionIfIdle(execution);
+      }
+    },
+    onUIClose: () => {
+      if (execution.scriptFinished && isLive(execution)) {
+        endSessionIfIdle(execution);
+      }
+    },
+  });
+
+  // Set once the modules are loaded: string timer callbacks see the same globals
+  let compileInScope: ((code: string) => Function) | undefined;
+  const timers = timersService.createExecutionTimers({
+    logger: execConsole,
+    compile: (code) => (compileInScope ? compileInScope(code) : new Function(code)),
+    onChange: (pending) => {
+      if (!isLive(execution)) return;
+      callbacks.sendToUI({
+        type: 'EXECUTION_TIMERS',
+        payload: { executionId, pending },
+      });
+      if (pending === 0 && execution.scriptFinished) {
+        endSessionIfIdle(execution);
       }
     },
   });
 
+  const execution: Execution = {
+    id: executionId,
+    projectId,
+    startTime,
+    callbacks,
+    aborted: false,
+    scriptFinished: false,
+    command,
+    awaitingParameters: !!payload.parameters && payload.parameters.length > 0,
+    runPending: true,
+    parameters,
+    lastActivityAt: startTime,
+    idleCheckHandle: null,
+    console: execConsole,
+    notifier,
+    bridge,
+    timers,
+    run: runSignalService.createRunController(execConsole),
+    dryRun: dryRun ?? null,
+    profiler,
+    stackMapper,
+  };
+  executions.set(executionId, execution);
+
+  const networkPolicy = networkAccessService.createNetworkPolicy(payload.networkAccess);
+  for (const warning of networkPolicy.warnings) {
+    execConsole.warn(`[Runner] ${warning}`);
+  }
+
   const proxyFetch = proxyFetchService.createProxyFetch({
     sendToUI: callbacks.sendToUI,
-    getExecutionId: () => currentExecutionId,
+    getExecutionId: () => (executions.has(executionId) ? executionId : null),
+    networkPolicy,
+    logger: execConsole,
+    onSettled: () => {
+      if (execution.scriptFinished && isLive(execution)) {
+        endSessionIfIdle(execution);
+      }
+    },
   });
 
-  timeoutHandle = setTimeout(() => {
-    if (currentExecutionId === executionId && !aborted) {
-      aborted = true;
-      fullCleanup();
+  if (idleTimeoutMs > 0) {
+    execution.idleCheckHandle = setInterval(() => {
+      if (!isLive(execution)) return;
+      if (Date.now() - execution.lastActivityAt < idleTimeoutMs) return;
+      execution.aborted = true;
+      fullCleanup(execution, REASON_TIMEOUT);
       callbacks.sendToUI({
         type: 'EXECUTION_ERROR',
         payload: {
           executionId,
-          message: `Timeout: execution interrompue apres ${EXECUTION_TIMEOUT_MS / 1000}s`,
+          message: `Timeout: aucune activite depuis ${idleTimeoutMs / 1000}s, execution interrompue`,
         },
       });
-    }
-  }, EXECUTION_TIMEOUT_MS);
+    }, IDLE_CHECK_INTERVAL_MS);
+  }
 
   try {
-    const escapedHtml = uiHtml.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$/g, '\\$');
-    const wrappedCode = `
-      "use strict";
-      var __html__ = \`${escapedHtml}\`;
-      try {
-        ${codeJs}
-      } catch (__err__) {
-        throw __err__;
-      }
-    `;
-
-    const execFn = new Function('figma', 'fetch', wrappedCode);
-    const result = execFn(figmaProxy, proxyFetch);
+    const loader = moduleLoader.createModuleLoader({
+      files,
+      globals: {
+        figma: bridge.figma,
+        fetch: proxyFetch,
+        ...fetchApiService.globals,
+        console: execConsole,
+        // Like Figma: __html__ only for a single `ui` path, __uiFiles__ only for the map form
+        __html__: uiHtml ?? undefined,
+        __uiFiles__: uiFiles ?? undefined,
+        ...timers.globals,
+        __runSignal__: execution.run.signal,
+        AbortController: runSignalService.createAbortControllerClass(execConsole),
+      },
+      onCycle: (chain: string[]) => {
+        execConsole.warn(`[Runner] Dependance circulaire: ${chain.join(' -> ')}`);
+      },
+    });
+    compileInScope = loader.compile;
+    const result = loader.run(mainPath);
+    if (!execution.awaitingParameters && isLive(execution)) {
+      fireRun(execution, undefined);
+    }
 
-    if (result && typeof result.then === 'function') {
-      result
+    if (isThenable(result)) {
+      Promise.resolve(result)
         .then(() => {
-          if (!aborted && currentExecutionId === executionId) {
-            const duration = Date.now() - startTime;
-            softCleanup();
-            callbacks.sendToUI({
-              type: 'EXECUTION_DONE',
-              payload: { executionId, duration },
-            });
+          if (isLive(execution)) {
+            finishScript(execution);
           }
         })
         .catch((err: unknown) => {
-          if (!aborted && currentExecutionId === executionId) {
-            fullCleanup();
-            const { message, stack } = extractError(err);
-            callbacks.sendToUI({
-              type: 'EXECUTION_ERROR',
-              payload: { executionId, message, stack },
-            });
+          if (isLive(execution)) {
+            failExecution(execution, err);
           }
         });
     } else {
-      if (!aborted && currentExecutionId === executionId) {
-        const duration = Date.now() - startTime;
-        softCleanup();
-        callbacks.sendToUI({
-          type: 'EXECUTION_DONE',
-          payload: { executionId, duration },
-        });
+      if (isLive(execution)) {
+        finishScript(execution);
       }
     }
   } catch (err) {
-    if (!aborted && currentExecutionId === executionId) {
-      fullCleanup();
-      const { message, stack } = extractError(err);
-      callbacks.sendToUI({
-        type: 'EXECUTION_ERROR',
-        payload: { executionId, message, stack },
-      });
+    if (isLive(execution)) {
+      failExecution(execution, err);
     }
   }
 }
 
-export function stop(callbacks: ExecutorCallbacks): void {
-  if (!currentExecutionId) return;
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+export function stop(executionId: string, callbacks: ExecutorCallbacks): void {
+  const execution = executions.get(executionId);
+  if (!execution) return;
 
-  const executionId = currentExecutionId;
-  aborted = true;
-  fullCleanup();
+  execution.aborted = true;
+  fullCleanup(execution, REASON_STOPPED);
 
   callbacks.sendToUI({
     type: 'EXECUTION_DONE',
@@ -189,33 +370,192 @@ export function stop(callbacks: ExecutorCallbacks): void {
   });
 }
 
-export function isRunning(): boolean {
-  return currentExecutionId !== null;
+/** What the user typed in a parameter field: asks the plugin for suggestions */
+export function parameterInput(executionId: string, key: string, query: string, values: ParameterValues): void {
+  const execution = executions.get(executionId);
+  if (!execution || !execution.awaitingParameters) return;
+  markActivity(execution);
+  execution.parameters.input(key, query, values);
 }
 
-export function getExecutionId(): string | null {
-  return currentExecutionId;
+/** Parameters entered: fires the `run` event */
+export function submitParameters(executionId: string, values: ParameterValues): void {
+  const execution = executions.get(executionId);
+  if (!execution || !isLive(execution) || !execution.awaitingParameters) return;
+  execution.awaitingParameters = false;
+  markActivity(execution);
+  fireRun(execution, values);
 }
 
-function softCleanup(): void {
-  if (timeoutHandle !== null) {
-    clearTimeout(timeoutHandle);
-    timeoutHandle = null;
+/** Routes a message from a plugin UI to the figma.ui.onmessage of its execution */
+export function dispatchUIMessage(executionId: string, data: unknown): void {
+  executions.get(executionId)?.bridge.dispatch(data);
+}
+
+/** Runs the button action of a notification clicked in the Runner UI */
+export function notifyAction(executionId: string, notificationId: string): void {
+  const execution = executions.get(executionId);
+  if (!execution) return;
+  markActivity(execution);
+  execution.notifier.runAction(notificationId);
+}
+
+export async function revert(executionId: string, callbacks: ExecutorCallbacks): Promise<void> {
+  const journal = journals.get(executionId);
+  if (!journal) {
+    callbacks.sendToUI({
+      type: 'EXECUTION_REVERTED',
+      payload: { executionId, error: 'Aucune modification enregistree pour ce run (journal expire)' },
+    });
+    return;
   }
+  if (executions.has(executionId)) {
+    stop(executionId, callbacks);
+  }
+  const result = await journal.revert();
+  journals.delete(executionId);
+  figma.commitUndo();
+  callbacks.sendToUI({
+    type: 'EXECUTION_REVERTED',
+    payload: { executionId, result },
+  });
+}
+
+export function isRunning(): boolean {
+  return executions.size > 0;
+}
+
+export function getExecutionIds(): string[] {
+  return Array.from(executions.keys());
+}
+
+// --- Session lifecycle ---
+
+/** True until the execution is stopped, fails or ends */
+function isLive(execution: Execution): boolean {
+  return !execution.aborted && executions.get(execution.id) === execution;
+}
+
+/** Resets the idle timer (UI message, figma API access, log...) */
+function markActivity(execution: Execution): void {
+  execution.lastActivityAt = Date.now();
+}
+
+/**
+ * True while the plugin can still run code: UI, figma.on() listeners,
+ * timers, figma API promises and proxied fetches not settled yet,
+ * `run` to come
+ */
+function hasActiveHandles(execution: Execution): boolean {
+  return execution.runPending
+    || execution.bridge.hasActiveHandles()
+    || execution.timers.pendingCount() > 0
+    || proxyFetchService.pendingCountFor(execution.id) > 0;
 }
 
-function fullCleanup(): void {
-  consoleService.restore();
-  softCleanup();
-  uiBridge.reset();
-  proxyFetchService.cleanup();
-  currentExecutionId = null;
-  aborted = false;
+function fireRun(execution: Execution, parameters: ParameterValues | undefined): void {
+  const settled = () => {
+    execution.runPending = false;
+    if (isLive(execution) && execution.scriptFinished) {
+      endSessionIfIdle(execution);
+    }
+  };
+  const pending = execution.bridge.emit('run', { command: execution.command, parameters });
+  if (pending) pending.then(settled);
+  else settled();
+}
+
+function finishScript(execution: Execution): void {
+  execution.scriptFinished = true;
+  markActivity(execution);
+  const duration = Date.now() - execution.startTime;
+  // Next task: promise callbacks the plugin queued without awaiting them run first
+  setTimeout(() => {
+    if (!isLive(execution)) return;
+    if (!hasActiveHandles(execution)) {
+      endSession(execution);
+      return;
+    }
+    execution.callbacks.sendToUI({
+      type: 'EXECUTION_SCRIPT_DONE',
+      payload: { executionId: execution.id, duration },
+    });
+  }, 0);
+}
+
+function failExecution(execution: Execution, err: unknown): void {
+  fullCleanup(execution);
+  const { message, stack, stackFrames } = extractError(err, execution.stackMapper);
+  execution.callbacks.sendToUI({
+    type: 'EXECUTION_ERROR',
+    payload: { executionId: execution.id, message, stack, stackFrames },
+  });
+}
+
+/**
+ * Ends the session once nothing can run plugin code anymore. Checked
+ * on the next task: a settled figma promise or fetch usually has
+ * plugin callbacks queued after it, which may start new work.
+ */
+function endSessionIfIdle(execution: Execution): void {
+  setTimeout(() => {
+    if (isLive(execution) && execution.scriptFinished && !hasActiveHandles(execution)) {
+      endSession(execution);
+    }
+  }, 0);
+}
+
+function endSession(execution: Execution): void {
+  const duration = Date.now() - execution.startTime;
+  fullCleanup(execution);
+  execution.callbacks.sendToUI({
+    type: 'EXECUTION_DONE',
+    payload: { executionId: execution.id, duration },
+  });
+}
+
+function publishJournal(execution: Execution): void {
+  const journal = journals.get(execution.id);
+  if (!journal) return;
+  execution.callbacks.sendToUI({
+    type: 'EXECUTION_JOURNAL',
+    payload: { executionId: execution.id, summary: journal.summary() },
+  });
+}
+
+function publishProfile(execution: Execution): void {
+  execution.callbacks.sendToUI({
+    type: 'EXECUTION_PROFILE',
+    payload: { executionId: execution.id, profile: execution.profiler.summary() },
+  });
+}
+
+function fullCleanup(execution: Execution, reason: string = REASON_ENDED): void {
+  if (executions.get(execution.id) !== execution) return;
+  execution.timers.clearAll();
+  // close handlers may still touch the document: before the journal is published
+  execution.bridge.closeListeners();
+  publishJournal(execution);
+  publishProfile(execution);
+  execution.run.abort(runSignalService.createAbortError(reason));
+  execution.dryRun?.flush();
+  execution.notifier.teardown();
+  if (execution.idleCheckHandle !== null) {
+    clearInterval(execution.idleCheckHandle);
+    execution.idleCheckHandle = null;
+  }
+  execution.bridge.reset(reason);
+  proxyFetchService.cleanup(execution.id, execution.callbacks.sendToUI);
+  executions.delete(execution.id);
 }
 
-function extractError(err: unknown): { message: string; stack?: string } {
+function extractError(
+  err: unknown,
+  stackMapper: StackMapper,
+): { message: string; stack?: string; stackFrames?: StackFrame[] } {
   if (err instanceof Error) {
-    return { message: err.message, stack: err.stack };
+    const { stack, frames } = stackMapper.mapStack(err.stack);
+    return { message: err.message, stack, stackFrames: frames.length > 0 ? frames : undefined };
   }
   return { message: String(err) };
 }
@@ -0,0 +1,774 @@
+// ============================================================
+// fetch-api.service.ts - Fetch API classes for plugin code
+//
+// The sandbox has no Headers, Request, Response, URLSearchParams,
+// FormData nor Blob: these copies follow the Fetch / URL / File API
+// specs closely enough for code written against the real fetch
+// (proxy-fetch.service.ts) and are given to plugin code as globals.
+//
+// Bodies are kept as a string or a Uint8Array, the two forms that
+// cross the plugin bridge. The sandbox has no TextEncoder /
+// TextDecoder either: UTF-8 conversions are done here.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+/** A request or response body as it crosses the bridge */
+export type ProxyBody = string | Uint8Array;
+
+type HeadersInitLike = Headers | Array<[string, string]> | Record<string, string> | Iterable<[string, string]>;
+type BodyInitLike = string | ArrayBuffer | ArrayBufferView | Blob | FormData | URLSearchParams | Record<string, unknown> | null;
+type BlobPartLike = string | ArrayBuffer | ArrayBufferView | Blob;
+
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+// Methods normalized to upper case; any other method is kept as given
+const NORMALIZED_METHODS = ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'POST', 'PUT'];
+
+// --- UTF-8 ---
+
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    // Surrogate pair -> one code point
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < text.length) {
+      const low = text.charCodeAt(i + 1);
+      if (low >= 0xdc00 && low < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) bytes.push(code);
+    else if (code < 0x800) bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    else if (code < 0x10000) bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    else bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+  }
+  return new Uint8Array(bytes);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  let out = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    let code = 0xfffd;
+    let length = 1;
+    if (b < 0x80) { code = b; }
+    else if (b >= 0xc2 && b < 0xe0 && i + 1 < bytes.length) { code = ((b & 0x1f) << 6) | (bytes[i + 1] & 0x3f); length = 2; }
+    else if (b >= 0xe0 && b < 0xf0 && i + 2 < bytes.length) { code = ((b & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f); length = 3; }
+    else if (b >= 0xf0 && b < 0xf5 && i + 3 < bytes.length) { code = ((b & 0x07) << 18) | ((bytes[i + 1] & 0x3f) << 12) | ((bytes[i + 2] & 0x3f) << 6) | (bytes[i + 3] & 0x3f); length = 4; }
+    // Invalid sequence: one replacement character per byte, like TextDecoder
+    for (let k = 1; k < length; k++) {
+      if ((bytes[i + k] & 0xc0) !== 0x80) { code = 0xfffd; length = 1; break; }
+    }
+    out += String.fromCodePoint(code);
+    i += length;
+  }
+  return out;
+}
+
+function toBytes(body: ProxyBody | null): Uint8Array {
+  if (body === null) return new Uint8Array(0);
+  return typeof body === 'string' ? utf8Encode(body) : body;
+}
+
+function toText(body: ProxyBody | null): string {
+  if (body === null) return '';
+  return typeof body === 'string' ? body : utf8Decode(body);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+function copyBuffer(source: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (source instanceof ArrayBuffer) return new Uint8Array(source.slice(0));
+  return new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+}
+
+// Absolute URL: scheme, authority, path, query, fragment
+const ABSOLUTE_URL = /^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)([^?#]*)(\?[^#]*)?(#.*)?$/i;
+const DEFAULT_PORTS: Record<string, string> = { http: '80', https: '443', ws: '80', wss: '443' };
+
+function removeDotSegments(path: string): string {
+  const out: string[] = [];
+  const parts = path.split('/').slice(1);
+  parts.forEach((part, i) => {
+    if (part === '..') out.pop();
+    if (part === '.' || part === '..') {
+      // A trailing dot segment leaves an empty last segment: /a/b/.. -> /a/
+      if (i === parts.length - 1) out.push('');
+      return;
+    }
+    out.push(part);
+  });
+  return `/${out.join('/')}`;
+}
+
+/**
+ * Serialized URL of a request, TypeError when invalid, like the URL
+ * parser with no base. The sandbox has no URL class: without it, a
+ * regex based parse normalizes the scheme, host, default port, dot
+ * segments and percent-encodes spaces and non-ASCII characters.
+ */
+export function parseRequestUrl(input: string): string {
+  const text = String(input).replace(/^[\x00-\x20]+|[\x00-\x20]+$/g, '');
+  if (typeof URL === 'function') {
+    try {
+      return new URL(text).href;
+    } catch {
+      throw new TypeError(`Failed to construct 'Request': Invalid URL '${text}'`);
+    }
+  }
+  const match = ABSOLUTE_URL.exec(text.replace(/[\t\n\r]/g, ''));
+  const authority = match ? /^(?:([^@]*)@)?(\[[^\]]+\]|[^:]*)(?::(\d*))?$/.exec(match[2]) : null;
+  if (!match || !authority || !authority[2]) {
+    throw new TypeError(`Failed to construct 'Request': Invalid URL '${text}'`);
+  }
+  const scheme = match[1].toLowerCase();
+  const port = authority[3] && authority[3] !== DEFAULT_PORTS[scheme] ? `:${authority[3]}` : '';
+  const userinfo = authority[1] !== undefined ? `${authority[1]}@` : '';
+  const path = removeDotSegments(match[3].replace(/\\/g, '/') || '/');
+  const href = `${scheme}://${userinfo}${authority[2].toLowerCase()}${port}${path}${match[4] ?? ''}${match[5] ?? ''}`;
+  return href.replace(/[^\x21-\x7e]+/g, (run) => encodeURI(run));
+}
+
+// Native objects and polyfills report their class through Symbol.toStringTag
+function isTagged(value: unknown, tag: string): boolean {
+  return Object.prototype.toString.call(value) === `[object ${tag}]`;
+}
+
+// --- Headers ---
+
+function normalizeHeaderName(name: string): string {
+  const text = String(name);
+  if (!HEADER_NAME.test(text)) throw new TypeError(`Invalid header name: '${text}'`);
+  return text.toLowerCase();
+}
+
+function normalizeHeaderValue(value: string): string {
+  return String(value).replace(/^[\t\n\r ]+|[\t\n\r ]+$/g, '');
+}
+
+export class Headers {
+  private readonly _map = new Map<string, string[]>();
+
+  constructor(init?: HeadersInitLike | null) {
+    if (init == null) return;
+    if (init instanceof Headers) {
+      init.forEach((value, name) => this.append(name, value));
+    } else if (typeof (init as Iterable<[string, string]>)[Symbol.iterator] === 'function') {
+      for (const pair of init as Iterable<[string, string]>) {
+        if (!pair || pair.length !== 2) throw new TypeError('Headers: each header must be a [name, value] pair');
+        this.append(pair[0], pair[1]);
+      }
+    } else {
+      const record = init as Record<string, string>;
+      for (const name of Object.keys(record)) this.append(name, record[name]);
+    }
+  }
+
+  append(name: string, value: string): void {
+    const key = normalizeHeaderName(name);
+    const values = this._map.get(key) ?? [];
+    values.push(normalizeHeaderValue(value));
+    this._map.set(key, values);
+  }
+
+  set(name: string, value: string): void {
+    this._map.set(normalizeHeaderName(name), [normalizeHeaderValue(value)]);
+  }
+
+  delete(name: string): void {
+    this._map.delete(normalizeHeaderName(name));
+  }
+
+  get(name: string): string | null {
+    const values = this._map.get(normalizeHeaderName(name));
+    return values ? values.join(', ') : null;
+  }
+
+  has(name: string): boolean {
+    return this._map.has(normalizeHeaderName(name));
+  }
+
+  getSetCookie(): string[] {
+    return (this._map.get('set-cookie') ?? []).slice();
+  }
+
+  forEach(callback: (value: string, name: string, headers: Headers) => void, thisArg?: unknown): void {
+    for (const [name, value] of this.entries()) callback.call(thisArg, value, name, this);
+  }
+
+  /** Sorted lower-case names, combined values; set-cookie values stay separate */
+  *entries(): IterableIterator<[string, string]> {
+    const names = Array.from(this._map.keys()).sort();
+    for (const name of names) {
+      const values = this._map.get(name)!;
+      if (name === 'set-cookie') {
+        for (const value of values) yield [name, value];
+      } else {
+        yield [name, values.join(', ')];
+      }
+    }
+  }
+
+  *keys(): IterableIterator<string> {
+    for (const [name] of this.entries()) yield name;
+  }
+
+  *values(): IterableIterator<string> {
+    for (const [, value] of this.entries()) yield value;
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, string]> {
+    return this.entries();
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'Headers';
+  }
+}
+
+/** Plain record for the bridge; repeated headers are combined */
+export function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = name in record ? `${record[name]}, ${value}` : value;
+  });
+  return record;
+}
+
+// --- URLSearchParams ---
+
+function decodeFormComponent(text: string): string {
+  const spaced = text.replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(spaced);
+  } catch {
+    return spaced;
+  }
+}
+
+// application/x-www-form-urlencoded: only *-._ and alphanumerics are left as is
+function encodeFormComponent(text: string): string {
+  return encodeURIComponent(text)
+    .replace(/[!'()~]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    .replace(/%20/g, '+');
+}
+
+export class URLSearchParams {
+  private _list: Array<[string, string]> = [];
+
+  constructor(init?: string | URLSearchParams | Array<[string, string]> | Record<string, string> | null) {
+    if (init == null) return;
+    if (typeof init === 'string') {
+      const query = init.charAt(0) === '?' ? init.slice(1) : init;
+      for (const part of query.split('&')) {
+        if (!part) continue;
+        const eq = part.indexOf('=');
+        const name = eq === -1 ? part : part.slice(0, eq);
+        const value = eq === -1 ? '' : part.slice(eq + 1);
+        this._list.push([decodeFormComponent(name), decodeFormComponent(value)]);
+      }
+    } else if (typeof (init as Iterable<[string, string]>)[Symbol.iterator] === 'function') {
+      for (const pair of init as Iterable<[string, string]>) {
+        if (!pair || pair.length !== 2) throw new TypeError('URLSearchParams: each pair must be a [name, value] sequence');
+        this._list.push([String(pair[0]), String(pair[1])]);
+      }
+    } else {
+      const record = init as Record<string, string>;
+      for (const name of Object.keys(record)) this._list.push([name, String(record[name])]);
+    }
+  }
+
+  get size(): number {
+    return this._list.length;
+  }
+
+  append(name: string, value: string): void {
+    this._list.push([String(name), String(value)]);
+  }
+
+  delete(name: string, value?: string): void {
+    this._list = this._list.filter(([n, v]) => n !== name || (value !== undefined && v !== String(value)));
+  }
+
+  get(name: string): string | null {
+    const pair = this._list.find(([n]) => n === name);
+    return pair ? pair[1] : null;
+  }
+
+  getAll(name: string): string[] {
+    return this._list.filter(([n]) => n === name).map(([, v]) => v);
+  }
+
+  has(name: string, value?: string): boolean {
+    return this._list.some(([n, v]) => n === name && (value === undefined || v === String(value)));
+  }
+
+  set(name: string, value: string): void {
+    const index = this._list.findIndex(([n]) => n === name);
+    if (index === -1) {
+      this.append(name, value);
+      return;
+    }
+    this._list[index] = [String(name), String(value)];
+    this._list = this._list.filter(([n], i) => i <= index || n !== name);
+  }
+
+  sort(): void {
+    // Array.prototype.sort is stable in ES2019+ engines, and so in the sandbox
+    this._list.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+  }
+
+  forEach(callback: (value: string, name: string, params: URLSearchParams) => void, thisArg?: unknown): void {
+    for (const [name, value] of this._list.slice()) callback.call(thisArg, value, name, this);
+  }
+
+  *entries(): IterableIterator<[string, string]> {
+    for (const [name, value] of this._list.slice()) yield [name, value];
+  }
+
+  *keys(): IterableIterator<string> {
+    for (const [name] of this._list.slice()) yield name;
+  }
+
+  *values(): IterableIterator<string> {
+    for (const [, value] of this._list.slice()) yield value;
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, string]> {
+    return this.entries();
+  }
+
+  toString(): string {
+    return this._list.map(([n, v]) => `${encodeFormComponent(n)}=${encodeFormComponent(v)}`).join('&');
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'URLSearchParams';
+  }
+}
+
+// --- Blob / File ---
+
+const blobBytes = new WeakMap<Blob, Uint8Array>();
+
+function partBytes(part: BlobPartLike): Uint8Array {
+  if (typeof part === 'string') return utf8Encode(part);
+  if (part instanceof Blob) return blobBytes.get(part)!;
+  if (part instanceof ArrayBuffer || ArrayBuffer.isView(part)) return copyBuffer(part);
+  return utf8Encode(String(part));
+}
+
+export class Blob {
+  readonly size: number;
+  readonly type: string;
+
+  constructor(parts: BlobPartLike[] = [], options: { type?: string } = {}) {
+    const bytes = concatBytes(Array.from(parts, partBytes));
+    blobBytes.set(this, bytes);
+    this.size = bytes.byteLength;
+    // Type is lower-cased, and dropped when not printable ASCII
+    const type = options.type ? String(options.type) : '';
+    this.type = /^[\x20-\x7e]*$/.test(type) ? type.toLowerCase() : '';
+  }
+
+  async text(): Promise<string> {
+    return utf8Decode(blobBytes.get(this)!);
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    return blobBytes.get(this)!.slice().buffer;
+  }
+
+  async bytes(): Promise<Uint8Array> {
+    return blobBytes.get(this)!.slice();
+  }
+
+  slice(start?: number, end?: number, type?: string): Blob {
+    const bytes = blobBytes.get(this)!;
+    return new Blob([bytes.slice(start, end)], { type: type ?? '' });
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'Blob';
+  }
+}
+
+export class File extends Blob {
+  readonly name: string;
+  readonly lastModified: number;
+
+  constructor(parts: BlobPartLike[], name: string, options: { type?: string; lastModified?: number } = {}) {
+    super(parts, options);
+    this.name = String(name);
+    this.lastModified = options.lastModified ?? Date.now();
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'File';
+  }
+}
+
+// --- FormData ---
+
+type FormDataValue = string | File;
+
+function toFormDataValue(value: unknown, filename?: string): FormDataValue {
+  if (!(value instanceof Blob)) return String(value);
+  if (value instanceof File && filename === undefined) return value;
+  const name = filename ?? (value instanceof File ? value.name : 'blob');
+  return new File([value], name, { type: value.type });
+}
+
+export class FormData {
+  private _entries: Array<[string, FormDataValue]> = [];
+
+  append(name: string, value: unknown, filename?: string): void {
+    this._entries.push([String(name), toFormDataValue(value, filename)]);
+  }
+
+  set(name: string, value: unknown, filename?: string): void {
+    const entry: [string, FormDataValue] = [String(name), toFormDataValue(value, filename)];
+    const index = this._entries.findIndex(([n]) => n === name);
+    if (index === -1) {
+      this._entries.push(entry);
+      return;
+    }
+    this._entries[index] = entry;
+    this._entries = this._entries.filter(([n], i) => i <= index || n !== name);
+  }
+
+  delete(name: string): void {
+    this._entries = this._entries.filter(([n]) => n !== name);
+  }
+
+  get(name: string): FormDataValue | null {
+    const entry = this._entries.find(([n]) => n === name);
+    return entry ? entry[1] : null;
+  }
+
+  getAll(name: string): FormDataValue[] {
+    return this._entries.filter(([n]) => n === name).map(([, v]) => v);
+  }
+
+  has(name: string): boolean {
+    return this._entries.some(([n]) => n === name);
+  }
+
+  forEach(callback: (value: FormDataValue, name: string, form: FormData) => void, thisArg?: unknown): void {
+    for (const [name, value] of this._entries.slice()) callback.call(thisArg, value, name, this);
+  }
+
+  *entries(): IterableIterator<[string, FormDataValue]> {
+    for (const [name, value] of this._entries.slice()) yield [name, value];
+  }
+
+  *keys(): IterableIterator<string> {
+    for (const [name] of this._entries.slice()) yield name;
+  }
+
+  *values(): IterableIterator<FormDataValue> {
+    for (const [, value] of this._entries.slice()) yield value;
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, FormDataValue]> {
+    return this.entries();
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'FormData';
+  }
+}
+
+// multipart/form-data names: line breaks and quotes are percent-encoded
+function escapeMultipartName(name: string): string {
+  return name.replace(/\n/g, '%0A').replace(/\r/g, '%0D').replace(/"/g, '%22');
+}
+
+function encodeMultipart(form: FormData): { bytes: Uint8Array; boundary: string } {
+  let boundary = '----RunnerFormBoundary';
+  for (let i = 0; i < 16; i++) boundary += 'abcdefghijklmnopqrstuvwxyz0123456789'.charAt(Math.floor(Math.random() * 36));
+
+  const chunks: Uint8Array[] = [];
+  form.forEach((value, name) => {
+    let head = `--${boundary}\r\nContent-Disposition: form-data; name="${escapeMultipartName(name)}"`;
+    if (value instanceof File) {
+      head += `; filename="${escapeMultipartName(value.name)}"\r\nContent-Type: ${value.type || 'application/octet-stream'}`;
+    }
+    chunks.push(utf8Encode(`${head}\r\n\r\n`));
+    chunks.push(value instanceof File ? blobBytes.get(value)! : utf8Encode(value.replace(/\r?\n|\r/g, '\r\n')));
+    chunks.push(utf8Encode('\r\n'));
+  });
+  chunks.push(utf8Encode(`--${boundary}--\r\n`));
+  return { bytes: concatBytes(chunks), boundary };
+}
+
+// --- Bodies ---
+
+export interface ExtractedBody {
+  body: ProxyBody | null;
+  /** Content-Type implied by the body type, used when none is set */
+  contentType: string | null;
+}
+
+/** Fetch spec "extract a body": bytes or text plus its default Content-Type */
+export function extractBody(body: unknown): ExtractedBody {
+  if (body == null) return { body: null, contentType: null };
+  if (typeof body === 'string') return { body, contentType: 'text/plain;charset=UTF-8' };
+  if (body instanceof URLSearchParams || isTagged(body, 'URLSearchParams')) {
+    return { body: String(body), contentType: 'application/x-www-form-urlencoded;charset=UTF-8' };
+  }
+  if (body instanceof FormData) {
+    const { bytes, boundary } = encodeMultipart(body);
+    return { body: bytes, contentType: `multipart/form-data; boundary=${boundary}` };
+  }
+  if (body instanceof Blob) return { body: blobBytes.get(body)!.slice(), contentType: body.type || null };
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return { body: copyBuffer(body), contentType: null };
+  // Not in the spec (it would send "[object Object]"): plugins commonly pass plain objects
+  return { body: JSON.stringify(body), contentType: 'application/json' };
+}
+
+abstract class BodyMixin {
+  protected _body: ProxyBody | null = null;
+  private _bodyUsed = false;
+
+  get bodyUsed(): boolean {
+    return this._bodyUsed;
+  }
+
+  protected consume(): ProxyBody | null {
+    if (this._bodyUsed) throw new TypeError('Body has already been consumed.');
+    this._bodyUsed = true;
+    return this._body;
+  }
+
+  protected abstract contentType(): string | null;
+
+  async text(): Promise<string> {
+    return toText(this.consume());
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(toText(this.consume()));
+  }
+
+  async blob(): Promise<Blob> {
+    return new Blob([toBytes(this.consume())], { type: this.contentType() ?? '' });
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    // Copy: the body is shared with clone()s
+    return toBytes(this.consume()).slice().buffer;
+  }
+
+  /** Uint8Array of the body, ready for figma.createImage() */
+  async bytes(): Promise<Uint8Array> {
+    return toBytes(this.consume()).slice();
+  }
+}
+
+// --- Request ---
+
+/** Signal of a request: the sandbox AbortController or any AbortSignal-like object */
+export interface SignalLike {
+  aborted: boolean;
+  reason?: unknown;
+  addEventListener?: (type: string, listener: () => void) => void;
+  removeEventListener?: (type: string, listener: () => void) => void;
+}
+
+export interface RequestInitLike {
+  method?: string;
+  headers?: HeadersInitLike;
+  body?: BodyInitLike;
+  signal?: SignalLike | null;
+  redirect?: 'follow' | 'error' | 'manual';
+  [option: string]: unknown;
+}
+
+export class Request extends BodyMixin {
+  readonly url: string;
+  readonly method: string;
+  readonly headers: Headers;
+  readonly signal: SignalLike | null;
+  readonly redirect: 'follow' | 'error' | 'manual';
+
+  constructor(input: string | { toString(): string } | Request, init: RequestInitLike = {}) {
+    super();
+    const source = input instanceof Request ? input : null;
+    this.url = source ? source.url : parseRequestUrl(String(input));
+
+    const method = init.method !== undefined ? String(init.method) : source ? source.method : 'GET';
+    this.method = NORMALIZED_METHODS.indexOf(method.toUpperCase()) !== -1 ? method.toUpperCase() : method;
+    this.headers = new Headers(init.headers !== undefined ? init.headers : source?.headers);
+    this.signal = init.signal !== undefined ? init.signal : source ? source.signal : null;
+    this.redirect = init.redirect ?? source?.redirect ?? 'follow';
+
+    if (init.body != null) {
+      if (this.method === 'GET' || this.method === 'HEAD') {
+        throw new TypeError('Request with GET/HEAD method cannot have body.');
+      }
+      const extracted = extractBody(init.body);
+      this._body = extracted.body;
+      if (extracted.contentType && !this.headers.has('content-type')) this.headers.set('content-type', extracted.contentType);
+    } else if (source) {
+      this._body = source._body;
+    }
+  }
+
+  protected contentType(): string | null {
+    return this.headers.get('content-type');
+  }
+
+  /** Body as sent over the bridge, without consuming the request */
+  get rawBody(): ProxyBody | null {
+    return this._body;
+  }
+
+  clone(): Request {
+    if (this.bodyUsed) throw new TypeError('Request body is already used');
+    return new Request(this);
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'Request';
+  }
+}
+
+// --- Response ---
+
+export type ResponseTypeLike = 'basic' | 'cors' | 'default' | 'error' | 'opaque' | 'opaqueredirect';
+
+export interface ResponseInitLike {
+  status?: number;
+  statusText?: string;
+  headers?: HeadersInitLike;
+}
+
+// Key of the internal response state: module-private, so plugin code
+// constructing a Response always goes through the spec checks
+const INTERNAL = Symbol('response internals');
+
+interface ResponseInternals {
+  status: number;
+  type: ResponseTypeLike;
+  url: string;
+  redirected: boolean;
+  body: ProxyBody | null;
+}
+
+type ResponseConstructInit = ResponseInitLike & { [INTERNAL]?: ResponseInternals };
+
+export class Response extends BodyMixin {
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: Headers;
+  readonly type: ResponseTypeLike;
+  readonly url: string;
+  readonly redirected: boolean;
+
+  constructor(body?: BodyInitLike, init: ResponseInitLike = {}) {
+    super();
+    const internals = (init as ResponseConstructInit)[INTERNAL];
+    this.statusText = init.statusText ?? '';
+    this.headers = new Headers(init.headers);
+
+    if (internals) {
+      // Network, error and redirect responses: status outside the constructor range
+      this.status = internals.status;
+      this.type = internals.type;
+      this.url = internals.url;
+      this.redirected = internals.redirected;
+      this._body = internals.body;
+      return;
+    }
+
+    const status = init.status ?? 200;
+    if (status < 200 || status > 599) throw new RangeError(`Failed to construct 'Response': The status provided (${status}) is outside the range [200, 599].`);
+    this.status = status;
+    this.type = 'default';
+    this.url = '';
+    this.redirected = false;
+
+    if (body != null) {
+      if (NULL_BODY_STATUSES.indexOf(status) !== -1) throw new TypeError(`Response with null body status ${status} cannot have body`);
+      const extracted = extractBody(body);
+      this._body = extracted.body;
+      if (extracted.contentType && !this.headers.has('content-type')) this.headers.set('content-type', extracted.contentType);
+    }
+  }
+
+  get ok(): boolean {
+    return this.status >= 200 && this.status < 300;
+  }
+
+  protected contentType(): string | null {
+    return this.headers.get('content-type');
+  }
+
+  static error(): Response {
+    const init: ResponseConstructInit = { [INTERNAL]: { status: 0, type: 'error', url: '', redirected: false, body: null } };
+    return new Response(null, init);
+  }
+
+  static json(data: unknown, init: ResponseInitLike = {}): Response {
+    const headers = new Headers(init.headers);
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+    return new Response(JSON.stringify(data), { ...init, headers });
+  }
+
+  static redirect(url: string, status = 302): Response {
+    if (REDIRECT_STATUSES.indexOf(status) === -1) throw new RangeError(`Invalid status code: ${status}`);
+    const init: ResponseConstructInit = {
+      headers: { location: parseRequestUrl(String(url)) },
+      [INTERNAL]: { status, type: 'default', url: '', redirected: false, body: null },
+    };
+    return new Response(null, init);
+  }
+
+  clone(): Response {
+    if (this.bodyUsed) throw new TypeError('Response body is already used');
+    const init: ResponseConstructInit = {
+      statusText: this.statusText,
+      headers: this.headers,
+      [INTERNAL]: { status: this.status, type: this.type, url: this.url, redirected: this.redirected, body: this._body },
+    };
+    return new Response(null, init);
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'Response';
+  }
+}
+
+/** Response of a proxied request, as received from ui.html */
+export function createNetworkResponse(data: {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: ProxyBody | null;
+  url: string;
+  redirected: boolean;
+}): Response {
+  const init: ResponseConstructInit = {
+    statusText: data.statusText,
+    headers: data.headers,
+    // Plugin fetches leave a null-origin iframe: every response is CORS
+    [INTERNAL]: { status: data.status, type: 'cors', url: data.url, redirected: data.redirected, body: data.body },
+  };
+  return new Response(null, init);
+}
+
+/** Injected into plugin code next to fetch */
+export const globals = { Headers, Request, Response, URLSearchParams, FormData, Blob, File };
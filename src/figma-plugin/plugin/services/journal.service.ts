@@ -0,0 +1,209 @@
+// ============================================================
+// journal.service.ts - Document change journal for "Revert this run"
+//
+// The figma proxy (ui-bridge.service.ts) reports every node created,
+// property set and structural call made by plugin code. The journal
+// keeps the first previous value of each (node, property) so a run
+// can be reverted:
+//   1. moved nodes go back to their previous parent / index
+//   2. changed properties get their previous value back
+//   3. nodes created by the run are deleted
+// Removed nodes cannot be brought back (the API has no undelete):
+// they are only counted.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { JournalSummary, RevertResult } from '../types/messages.types';
+
+type JournalEntry =
+  | { kind: 'set'; nodeId: string | null; prop: string; oldValue: unknown }
+  | { kind: 'move'; nodeId: string; parentId: string; index: number }
+  | { kind: 'resize'; nodeId: string; width: number; height: number }
+  | { kind: 'pluginData'; nodeId: string; namespace: string | null; key: string; oldValue: string }
+  | { kind: 'remove'; nodeId: string };
+
+export interface RunJournal {
+  recordCreate: (node: BaseNode) => void;
+  /** target null = the figma global (currentPage...) */
+  recordSet: (target: BaseNode | null, prop: string) => void;
+  recordCall: (target: BaseNode | null, method: string, args: unknown[]) => void;
+  summary: () => JournalSummary;
+  revert: () => Promise<RevertResult>;
+}
+
+const MOVE_METHODS = ['appendChild', 'insertChild'];
+const RESIZE_METHODS = ['resize', 'resizeWithoutConstraints', 'rescale'];
+const TEXT_METHODS = ['insertCharacters', 'deleteCharacters'];
+// figma.* methods that reparent (group, booleanOperation) or consume (flatten) their input nodes
+const REPARENTING_METHODS = ['group', 'union', 'subtract', 'intersect', 'exclude'];
+const CONSUMING_METHODS = ['flatten'];
+
+function isNode(value: unknown): value is BaseNode {
+  return !!value && typeof value === 'object'
+    && typeof (value as BaseNode).id === 'string'
+    && typeof (value as BaseNode).type === 'string'
+    && 'parent' in value;
+}
+
+async function loadTextFonts(node: BaseNode): Promise<void> {
+  if (node.type !== 'TEXT') return;
+  const text = node as TextNode;
+  const fonts = text.characters.length > 0
+    ? text.getRangeAllFontNames(0, text.characters.length)
+    : [text.fontName as FontName];
+  for (const font of fonts) {
+    if (typeof font === 'object') await figma.loadFontAsync(font);
+  }
+}
+
+export function createJournal(): RunJournal {
+  const entries: JournalEntry[] = [];
+  const createdIds = new Set<string>();
+  const recordedKeys = new Set<string>();
+
+  function once(key: string): boolean {
+    if (recordedKeys.has(key)) return false;
+    recordedKeys.add(key);
+    return true;
+  }
+
+  function recordMove(node: unknown): void {
+    if (!isNode(node) || createdIds.has(node.id)) return;
+    const parent = node.parent;
+    if (!parent || !once(`move:${node.id}`)) return;
+    const index = (parent as ChildrenMixin & BaseNode).children.indexOf(node as SceneNode);
+    entries.push({ kind: 'move', nodeId: node.id, parentId: parent.id, index });
+  }
+
+  function recordRemove(node: unknown): void {
+    if (!isNode(node) || createdIds.has(node.id) || !once(`remove:${node.id}`)) return;
+    entries.push({ kind: 'remove', nodeId: node.id });
+  }
+
+  function recordSet(target: BaseNode | null, prop: string): void {
+    if (target && createdIds.has(target.id)) return;
+    const nodeId = target ? target.id : null;
+    if (!once(`set:${nodeId}:${prop}`)) return;
+    try {
+      const oldValue = target ? (target as any)[prop] : (figma as any)[prop];
+      entries.push({ kind: 'set', nodeId, prop, oldValue });
+    } catch {
+      // Write-only or unreadable property: nothing to restore
+    }
+  }
+
+  return {
+    recordCreate(node: BaseNode): void {
+      if (createdIds.has(node.id)) return;
+      createdIds.add(node.id);
+    },
+
+    recordSet,
+
+    recordCall(target: BaseNode | null, method: string, args: unknown[]): void {
+      if (target === null) {
+        const nodes = Array.isArray(args[0]) ? args[0] : [];
+        if (REPARENTING_METHODS.indexOf(method) !== -1) nodes.forEach(recordMove);
+        if (CONSUMING_METHODS.indexOf(method) !== -1) nodes.forEach(recordRemove);
+        return;
+      }
+
+      if (MOVE_METHODS.indexOf(method) !== -1) {
+        recordMove(method === 'insertChild' ? args[1] : args[0]);
+      } else if (method === 'remove') {
+        recordRemove(target);
+      } else if (RESIZE_METHODS.indexOf(method) !== -1) {
+        if (createdIds.has(target.id) || !once(`resize:${target.id}`)) return;
+        const layout = target as LayoutMixin & BaseNode;
+        entries.push({ kind: 'resize', nodeId: target.id, width: layout.width, height: layout.height });
+      } else if (method === 'setPluginData' || method === 'setSharedPluginData') {
+        if (createdIds.has(target.id)) return;
+        const namespace = method === 'setSharedPluginData' ? String(args[0]) : null;
+        const key = String(namespace === null ? args[0] : args[1]);
+        if (!once(`data:${target.id}:${namespace}:${key}`)) return;
+        const oldValue = namespace === null
+          ? target.getPluginData(key)
+          : target.getSharedPluginData(namespace, key);
+        entries.push({ kind: 'pluginData', nodeId: target.id, namespace, key, oldValue });
+      } else if (TEXT_METHODS.indexOf(method) !== -1 || method.indexOf('setRange') === 0) {
+        recordSet(target, 'characters');
+      }
+    },
+
+    summary(): JournalSummary {
+      let modified = 0;
+      let removed = 0;
+      for (const entry of entries) {
+        if (entry.kind === 'remove') removed++;
+        else modified++;
+      }
+      return { created: createdIds.size, modified, removed };
+    },
+
+    async revert(): Promise<RevertResult> {
+      const result: RevertResult = { deleted: 0, restored: 0, failed: 0, unrecoverable: 0 };
+
+      for (let i = entries.length - 1; i >= 0; i--) {
+        const entry = entries[i];
+        if (entry.kind === 'remove') {
+          result.unrecoverable++;
+          continue;
+        }
+        try {
+          const node = entry.nodeId === null ? null : figma.getNodeById(entry.nodeId);
+          if (entry.nodeId !== null && (!node || node.removed)) {
+            result.failed++;
+            continue;
+          }
+          switch (entry.kind) {
+            case 'set':
+              if (node) {
+                await loadTextFonts(node);
+                (node as any)[entry.prop] = entry.oldValue;
+              } else {
+                (figma as any)[entry.prop] = entry.oldValue;
+              }
+              break;
+            case 'move': {
+              const parent = figma.getNodeById(entry.parentId) as (BaseNode & ChildrenMixin) | null;
+              if (!parent) throw new Error('parent removed');
+              const index = Math.min(entry.index, parent.children.length);
+              parent.insertChild(index, node as SceneNode);
+              break;
+            }
+            case 'resize':
+              (node as LayoutMixin & BaseNode).resizeWithoutConstraints(entry.width, entry.height);
+              break;
+            case 'pluginData':
+              if (entry.namespace === null) {
+                (node as BaseNode).setPluginData(entry.key, entry.oldValue);
+              } else {
+                (node as BaseNode).setSharedPluginData(entry.namespace, entry.key, entry.oldValue);
+              }
+              break;
+          }
+          result.restored++;
+        } catch {
+          result.failed++;
+        }
+      }
+
+      for (const id of createdIds) {
+        const node = figma.getNodeById(id);
+        if (!node || node.removed) continue;
+        try {
+          node.remove();
+          result.deleted++;
+        } catch {
+          result.failed++;
+        }
+      }
+
+      entries.length = 0;
+      createdIds.clear();
+      recordedKeys.clear();
+      return result;
+    },
+  };
+}
@@ -0,0 +1,274 @@
+// ============================================================
+// module-loader.service.ts - Multi-file bundle execution
+//
+// Evaluates bundle files as CommonJS-style modules so plugin code
+// can require() / import other files of the same bundle:
+//
+//   require('./utils')         -> resolved relative to the importing file
+//   import { a } from '../lib'  -> require() once transpiled by ui.html
+//   require('./data.json')     -> parsed JSON
+//   require('./template.html') -> raw file content
+//
+// .ts/.tsx/.jsx files and ES modules are transpiled to CommonJS by
+// ui.html before EXECUTE_PLUGIN (ui/lib/transpiler.ts), so every
+// script is evaluated as is here. The transpiler keeps the line count
+// of each file and every module is tagged with a sourceURL, so stack
+// frames can be mapped back to the bundle file and line
+// (see stack-mapper.service.ts).
+// Circular imports are detected: a warning is reported and the
+// partially initialized exports are returned, like Node does.
+//
+// The injected globals are also what plugin code finds through the
+// global object: globalThis (and self / global when the sandbox has
+// them) is a scoped view of the real global where the injected names
+// win, and Function compiles code in that same scope. So
+// `globalThis.figma` or `Function('return this')().figma` give the
+// run's proxy, not the Runner's figma. This is not a security
+// boundary: `(0, eval)`, `(function () {}).constructor` or the
+// constructor of an async function still reach the real global
+// object and figma, so the Runner keeps nothing secret where the
+// real API can read it (auth.service.ts).
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { BundleFile } from '../types/runner.types';
+
+const RESOLVE_EXTENSIONS = ['', '.js', '.mjs', '.cjs', '.ts', '.tsx', '.jsx', '.json'];
+const RESOLVE_INDEX_FILES = ['/index.js', '/index.mjs', '/index.ts', '/index.tsx'];
+const SCRIPT_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts', '.cts', '.tsx', '.jsx'];
+
+/** Prefix of the sourceURL given to every evaluated module: vibe-bundle:///src/main.js */
+export const BUNDLE_SOURCE_URL = 'vibe-bundle:///';
+
+const MODULE_PARAMS = ['require', 'module', 'exports', '__filename', '__dirname'];
+
+let wrapperLineOffset: number | null = null;
+
+export interface ModuleLoaderOptions {
+  files: BundleFile[];
+  /** Names injected in the scope of every module (figma, fetch, __html__...) */
+  globals: Record<string, unknown>;
+  onCycle?: (chain: string[]) => void;
+}
+
+export interface ModuleLoader {
+  /** Evaluates the entry module and returns the value returned by its top-level code */
+  run: (entryPath: string) => unknown;
+  /** Compiles code in the scope of the modules, like their Function (string timers) */
+  compile: (code: string) => Function;
+}
+
+interface ModuleRecord {
+  path: string;
+  exports: any;
+  loaded: boolean;
+}
+
+// --- Paths ---
+
+export function normalizePath(path: string): string {
+  const out: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      out.pop();
+    } else {
+      out.push(part);
+    }
+  }
+  return out.join('/');
+}
+
+function dirname(path: string): string {
+  const idx = path.lastIndexOf('/');
+  return idx === -1 ? '' : path.slice(0, idx);
+}
+
+function extname(path: string): string {
+  const base = path.slice(path.lastIndexOf('/') + 1);
+  const idx = base.lastIndexOf('.');
+  return idx <= 0 ? '' : base.slice(idx).toLowerCase();
+}
+
+// --- Wrapper line offset ---
+
+function buildBody(code: string, path: string): string {
+  // The source starts on the 2nd line of the body
+  return `"use strict";\n${code}\n//# sourceURL=${BUNDLE_SOURCE_URL}${path}`;
+}
+
+/**
+ * Number of lines the engine reports before line 1 of a module source:
+ * the `new Function` header plus our "use strict" line. Measured once with a
+ * probe function, since the header differs between JS engines.
+ */
+export function getWrapperLineOffset(): number {
+  if (wrapperLineOffset !== null) return wrapperLineOffset;
+  wrapperLineOffset = 3;
+  try {
+    const probe = new Function(...MODULE_PARAMS, buildBody('return new Error().stack;', '__probe__'));
+    const match = new RegExp(`${BUNDLE_SOURCE_URL}__probe__:(\\d+)`).exec(String(probe()));
+    if (match) wrapperLineOffset = parseInt(match[1], 10) - 1;
+  } catch {
+    // Keep the V8 default
+  }
+  return wrapperLineOffset;
+}
+
+// --- Scoped global object ---
+
+// Names of the global object in the sandbox; only the existing ones are shadowed
+const GLOBAL_ALIASES = ['globalThis', 'self', 'global', 'window'];
+
+interface ModuleScope {
+  names: string[];
+  values: unknown[];
+  compile: (...args: string[]) => Function;
+}
+
+function createModuleScope(globals: Record<string, unknown>): ModuleScope {
+  const realGlobal: any = globalThis;
+  const overrides: Record<string, unknown> = { ...globals };
+  const isOverridden = (prop: PropertyKey) => Object.prototype.hasOwnProperty.call(overrides, prop);
+
+  // Empty target, like the figma proxy (ui-bridge.service.ts): the real
+  // global has non-configurable properties the get trap may replace
+  const scopedGlobal = new Proxy({}, {
+    get: (_t, prop) => (isOverridden(prop) ? overrides[prop as string] : realGlobal[prop]),
+    set: (_t, prop, value) => {
+      if (isOverridden(prop)) overrides[prop as string] = value;
+      else realGlobal[prop] = value;
+      return true;
+    },
+    has: (_t, prop) => isOverridden(prop) || prop in realGlobal,
+    deleteProperty: (_t, prop) => (isOverridden(prop) ? delete overrides[prop as string] : delete realGlobal[prop]),
+  });
+
+  // Function(...params, body) compiled with the injected names in scope;
+  // `this` of a plain call is the scoped global instead of the real one
+  const scopedFunction = function (...args: string[]): Function {
+    const body = args.length > 0 ? String(args[args.length - 1]) : '';
+    const params = args.slice(0, -1).map(String).join(', ');
+    const inner: Function = new Function(...names, `return function anonymous(${params}\n) {\n${body}\n}`)(...values);
+    return function (this: unknown, ...callArgs: unknown[]) {
+      return inner.apply(this === undefined || this === realGlobal ? scopedGlobal : this, callArgs);
+    };
+  };
+  scopedFunction.prototype = Function.prototype;
+
+  for (const alias of GLOBAL_ALIASES) {
+    if (!isOverridden(alias) && (alias === 'globalThis' || alias in realGlobal)) overrides[alias] = scopedGlobal;
+  }
+  if (!isOverridden('Function')) overrides.Function = scopedFunction;
+
+  const names = Object.keys(overrides);
+  const values = names.map((name) => overrides[name]);
+  return { names, values, compile: scopedFunction };
+}
+
+// --- Loader ---
+
+export function createModuleLoader(options: ModuleLoaderOptions): ModuleLoader {
+  const files = new Map<string, BundleFile>();
+  for (const file of options.files) {
+    files.set(normalizePath(file.path), file);
+  }
+
+  const cache = new Map<string, ModuleRecord>();
+  const loadingStack: string[] = [];
+  const scope = createModuleScope(options.globals);
+
+  function resolve(specifier: string, fromPath: string | null): string {
+    const base = specifier.startsWith('./') || specifier.startsWith('../')
+      ? normalizePath(`${fromPath ? dirname(fromPath) : ''}/${specifier}`)
+      : normalizePath(specifier);
+
+    for (const ext of RESOLVE_EXTENSIONS) {
+      if (files.has(base + ext)) return base + ext;
+    }
+    for (const index of RESOLVE_INDEX_FILES) {
+      if (files.has(base + index)) return base + index;
+    }
+
+    const from = fromPath ? ` from '${fromPath}'` : '';
+    throw new Error(`Module not found: '${specifier}'${from} (no matching file in bundle)`);
+  }
+
+  function evaluate(record: ModuleRecord, file: BundleFile): unknown {
+    const ext = extname(record.path);
+
+    if (ext === '.json') {
+      try {
+        record.exports = JSON.parse(file.content);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new SyntaxError(`${record.path}: invalid JSON (${message})`);
+      }
+      return undefined;
+    }
+
+    if (SCRIPT_EXTENSIONS.indexOf(ext) === -1) {
+      record.exports = file.content;
+      return undefined;
+    }
+
+    const localRequire = (specifier: string) => requireFrom(specifier, record.path);
+    const module = { exports: record.exports, id: record.path };
+    const body = buildBody(file.content, record.path);
+
+    let fn: Function;
+    try {
+      fn = new Function(...MODULE_PARAMS, ...scope.names, body);
+    } catch (err) {
+      if (err instanceof SyntaxError) {
+        throw new SyntaxError(`${record.path}: ${err.message}`);
+      }
+      throw err;
+    }
+
+    const result = fn(localRequire, module, module.exports, record.path, dirname(record.path), ...scope.values);
+    record.exports = module.exports;
+    return result;
+  }
+
+  function load(path: string): { record: ModuleRecord; result: unknown } {
+    const cached = cache.get(path);
+    if (cached) {
+      if (!cached.loaded && options.onCycle) {
+        const start = loadingStack.indexOf(path);
+        options.onCycle([...loadingStack.slice(start), path]);
+      }
+      return { record: cached, result: undefined };
+    }
+
+    const file = files.get(path) as BundleFile;
+    const record: ModuleRecord = { path, exports: {}, loaded: false };
+    cache.set(path, record);
+    loadingStack.push(path);
+    try {
+      const result = evaluate(record, file);
+      record.loaded = true;
+      return { record, result };
+    } catch (err) {
+      cache.delete(path);
+      throw err;
+    } finally {
+      loadingStack.pop();
+    }
+  }
+
+  function requireFrom(specifier: string, fromPath: string | null): unknown {
+    if (typeof specifier !== 'string') {
+      throw new TypeError(`require() expects a string, got ${typeof specifier}`);
+    }
+    return load(resolve(specifier, fromPath)).record.exports;
+  }
+
+  return {
+    run(entryPath: string): unknown {
+      return load(resolve(entryPath, null)).result;
+    },
+    compile: (code: string) => scope.compile(code),
+  };
+}
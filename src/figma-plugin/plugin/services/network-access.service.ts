@@ -0,0 +1,173 @@
+// ============================================================
+// network-access.service.ts - manifest `networkAccess` rules
+//
+// Mirrors how Figma enforces a plugin's declared domains:
+//   - allowedDomains: ['*'] allows everything, ['none'] nothing
+//   - entries are CSP-like sources: [scheme://][*.]host[:port][/path]
+//     (no scheme = http(s)/ws(s), `*.` = subdomains only, a path
+//     ending with `/` is a prefix, otherwise an exact path)
+//   - devAllowedDomains only apply while developing: allowed here,
+//     with a warning since they are dropped once published
+//   - no networkAccess at all = unrestricted (legacy plugins)
+//
+// Pure functions: used by the sandbox (proxy-fetch.service.ts) and
+// by the UI when validating a manifest.
+// ============================================================
+
+import type { NetworkAccessConfig } from '../types/runner.types';
+
+export type NetworkAccessVerdict = 'allowed' | 'dev-only' | 'blocked' | 'invalid';
+
+export interface NetworkPolicy {
+  check: (url: string) => NetworkAccessVerdict;
+  /** Declared sources, formatted like a CSP directive for error messages */
+  sources: string;
+  /** Manifest issues Figma warns about without blocking the plugin */
+  warnings: string[];
+}
+
+interface Source {
+  scheme: string | null;
+  host: string;
+  wildcard: boolean;
+  port: string | null;
+  path: string | null;
+}
+
+interface ParsedUrl {
+  scheme: string;
+  host: string;
+  port: string;
+  path: string;
+}
+
+const SOURCE_PATTERN = /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d+|\*))?(\/\S*)?$/i;
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/(?:[^@/?#]*@)?(\[[^\]]+\]|[^:/?#]+)(?::(\d+))?([^?#]*)/i;
+const DEFAULT_PORTS: Record<string, string> = { http: '80', https: '443', ws: '80', wss: '443' };
+// Not network requests: never restricted (Figma's CSP allows data: and blob:)
+const LOCAL_SCHEMES = /^(data|blob):/i;
+
+function parseSource(entry: string): Source | null {
+  const match = SOURCE_PATTERN.exec(entry.trim());
+  if (!match) return null;
+  return {
+    scheme: match[1] ? match[1].toLowerCase() : null,
+    wildcard: !!match[2],
+    host: match[3].toLowerCase(),
+    port: match[4] ?? null,
+    path: match[5] ?? null,
+  };
+}
+
+function parseUrl(url: string): ParsedUrl | null {
+  const match = URL_PATTERN.exec(url);
+  if (!match) return null;
+  return {
+    scheme: match[1].toLowerCase(),
+    host: match[2].toLowerCase(),
+    port: match[3] ?? '',
+    path: match[4] || '/',
+  };
+}
+
+function schemeMatches(source: Source, url: ParsedUrl): boolean {
+  if (source.scheme === null) return url.scheme in DEFAULT_PORTS;
+  if (source.scheme === url.scheme) return true;
+  // CSP lets an insecure scheme match its secure upgrade
+  return (source.scheme === 'http' && url.scheme === 'https') || (source.scheme === 'ws' && url.scheme === 'wss');
+}
+
+function sourceMatches(source: Source, url: ParsedUrl): boolean {
+  if (!schemeMatches(source, url)) return false;
+
+  if (source.wildcard) {
+    if (!url.host.endsWith(`.${source.host}`)) return false;
+  } else if (url.host !== source.host) {
+    return false;
+  }
+
+  const urlPort = url.port || DEFAULT_PORTS[url.scheme] || '';
+  if (source.port === null) {
+    if (url.port && url.port !== DEFAULT_PORTS[url.scheme]) return false;
+  } else if (source.port !== '*' && source.port !== urlPort) {
+    return false;
+  }
+
+  if (source.path !== null) {
+    return source.path.endsWith('/') ? url.path.startsWith(source.path) : url.path === source.path;
+  }
+  return true;
+}
+
+function matchesAny(entries: string[], url: ParsedUrl): boolean {
+  return entries.some((entry) => {
+    if (entry === '*') return true;
+    const source = parseSource(entry);
+    return !!source && sourceMatches(source, url);
+  });
+}
+
+/** Errors that make Figma reject the manifest, empty when valid */
+export function validateNetworkAccess(raw: unknown): string[] {
+  if (raw === undefined) return [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return ['networkAccess doit etre un objet'];
+  const access = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const checkList = (field: 'allowedDomains' | 'devAllowedDomains', required: boolean) => {
+    const list = access[field];
+    if (list === undefined) {
+      if (required) errors.push(`networkAccess.${field} est requis`);
+      return;
+    }
+    if (!Array.isArray(list) || !list.every((d) => typeof d === 'string')) {
+      errors.push(`networkAccess.${field} doit etre une liste de domaines`);
+      return;
+    }
+    if (list.indexOf('none') !== -1 && list.length > 1) {
+      errors.push(`networkAccess.${field}: "none" doit etre la seule valeur`);
+    }
+    for (const entry of list as string[]) {
+      if (entry !== '*' && entry !== 'none' && !parseSource(entry)) {
+        errors.push(`networkAccess.${field}: domaine invalide "${entry}"`);
+      }
+    }
+  };
+  checkList('allowedDomains', true);
+  checkList('devAllowedDomains', false);
+
+  if (access.reasoning !== undefined && typeof access.reasoning !== 'string') {
+    errors.push('networkAccess.reasoning doit etre une chaine');
+  }
+  return errors;
+}
+
+export function createNetworkPolicy(access: NetworkAccessConfig | null): NetworkPolicy {
+  if (!access) {
+    return {
+      check: (url) => (LOCAL_SCHEMES.test(url) || parseUrl(url) ? 'allowed' : 'invalid'),
+      sources: '*',
+      warnings: ['Le manifest ne declare pas networkAccess: acces reseau illimite, Figma demande de le declarer avant publication'],
+    };
+  }
+
+  const allowed = access.allowedDomains.filter((d) => d !== 'none');
+  const devAllowed = (access.devAllowedDomains ?? []).filter((d) => d !== 'none');
+  const warnings: string[] = [];
+  if (allowed.indexOf('*') !== -1 && !access.reasoning) {
+    warnings.push('networkAccess.reasoning est requis par Figma quand allowedDomains vaut ["*"]');
+  }
+
+  return {
+    check(url: string): NetworkAccessVerdict {
+      if (LOCAL_SCHEMES.test(url)) return 'allowed';
+      const parsed = parseUrl(url);
+      if (!parsed) return 'invalid';
+      if (matchesAny(allowed, parsed)) return 'allowed';
+      if (matchesAny(devAllowed, parsed)) return 'dev-only';
+      return 'blocked';
+    },
+    sources: allowed.length > 0 ? allowed.join(' ') : "'none'",
+    warnings,
+  };
+}
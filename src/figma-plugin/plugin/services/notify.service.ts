@@ -0,0 +1,133 @@
+// ============================================================
+// notify.service.ts - figma.notify for plugin code
+//
+// Notifications still reach Figma (the Runner is a plugin too), and
+// are also surfaced in the Runner: logged with a `notify` source and
+// shown as a toast (PLUGIN_NOTIFY). A toast's button runs the
+// plugin's action through NOTIFY_ACTION, cancel() hides both.
+// Like Figma closing a plugin, the end of the run removes the
+// notifications that have a button or no timeout.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { PluginMessage } from '../types/messages.types';
+import type { CapturedLog, RunLogger } from './console.service';
+
+const DEFAULT_TIMEOUT_MS = 3_000; // Figma default
+
+interface PendingNotification {
+  handler: NotificationHandler;
+  action?: () => boolean | void;
+  /** Button or infinite timeout: only removed by the end of the run */
+  persistent: boolean;
+}
+
+export interface Notifier {
+  /** Replacement for figma.notify given to plugin code */
+  notify: (message: string, options?: NotificationOptions) => NotificationHandler;
+  /** Runs the button action of a toast clicked in the Runner UI */
+  runAction: (notificationId: string) => boolean | void;
+  /** Removes the persistent notifications when the run ends */
+  teardown: () => void;
+}
+
+interface NotifierOptions {
+  executionId: string;
+  sendToUI: (msg: PluginMessage) => void;
+  /** Adds the notification to the execution's logs */
+  onLog: (log: CapturedLog) => void;
+  logger: RunLogger;
+}
+
+export function createNotifier(options: NotifierOptions): Notifier {
+  const { executionId, sendToUI } = options;
+  const pending = new Map<string, PendingNotification>();
+  let nextId = 1;
+
+  function runAction(notificationId: string): boolean | void {
+    const notification = pending.get(notificationId);
+    if (!notification) return;
+    try {
+      // Like Figma: an action returning false keeps the notification open
+      if (notification.action?.() === false) return false;
+    } catch (err) {
+      options.logger.error('[Runner] Erreur dans l\'action de figma.notify:', err);
+    }
+    notification.handler.cancel();
+  }
+
+  function notify(message: string, notifyOptions: NotificationOptions = {}): NotificationHandler {
+    const text = String(message);
+    const notificationId = String(nextId++);
+    const error = notifyOptions.error === true;
+    const timeout = notifyOptions.timeout ?? DEFAULT_TIMEOUT_MS;
+    const button = notifyOptions.button;
+    let cancelled = false;
+    let realHandler: NotificationHandler | null = null;
+
+    function hideToast(): void {
+      if (cancelled) return;
+      cancelled = true;
+      pending.delete(notificationId);
+      sendToUI({ type: 'PLUGIN_NOTIFY_CANCEL', payload: { executionId, notificationId } });
+    }
+
+    const handler: NotificationHandler = {
+      cancel() {
+        if (cancelled) return;
+        hideToast();
+        realHandler?.cancel();
+      },
+    };
+    pending.set(notificationId, { handler, action: button?.action, persistent: !!button || !Number.isFinite(timeout) });
+
+    try {
+      realHandler = figma.notify(text, {
+        ...notifyOptions,
+        button: button && { text: button.text, action: () => runAction(notificationId) },
+        onDequeue: (reason) => {
+          // Dismissed in Figma: the Runner toast goes too
+          hideToast();
+          notifyOptions.onDequeue?.(reason);
+        },
+      });
+    } catch (err) {
+      // Figma rejects some options (empty message...): same error for plugin code
+      pending.delete(notificationId);
+      throw err;
+    }
+
+    options.onLog({
+      level: error ? 'error' : 'info',
+      message: text,
+      timestamp: Date.now(),
+      source: 'notify',
+    });
+    sendToUI({
+      type: 'PLUGIN_NOTIFY',
+      payload: {
+        executionId,
+        notificationId,
+        message: text,
+        error,
+        // Infinity does not survive JSON: null means "until dismissed"
+        timeout: Number.isFinite(timeout) ? timeout : null,
+        button: button ? String(button.text) : undefined,
+      },
+    });
+    return handler;
+  }
+
+  return {
+    notify,
+    runAction,
+
+    teardown(): void {
+      for (const notification of Array.from(pending.values())) {
+        if (notification.persistent) notification.handler.cancel();
+      }
+      pending.clear();
+    },
+  };
+}
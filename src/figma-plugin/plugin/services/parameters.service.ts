@@ -0,0 +1,101 @@
+// ============================================================
+// parameters.service.ts - figma.parameters for plugin code
+//
+// The Runner UI plays Figma's quick-action input: each keystroke in
+// a parameter field becomes PARAMETER_INPUT, delivered to the
+// plugin's figma.parameters.on('input') handlers, and what they pass
+// to result.setSuggestions / setError / setLoadingMessage goes back
+// as PARAMETER_SUGGESTIONS.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { ParameterSuggestion, PluginMessage } from '../types/messages.types';
+import type { RunLogger } from './console.service';
+
+type InputHandler = (event: ParameterInputEvent) => void;
+
+export interface PluginParameters {
+  /** figma.parameters given to plugin code */
+  api: ParametersAPI;
+  /** Runs the input handlers for what the user typed in a parameter field */
+  input: (key: string, query: string, values: ParameterValues) => void;
+}
+
+interface ParametersOptions {
+  executionId: string;
+  sendToUI: (msg: PluginMessage) => void;
+  logger: RunLogger;
+}
+
+function toSuggestion(raw: unknown): ParameterSuggestion {
+  if (typeof raw === 'string') return { name: raw };
+  const s = (raw ?? {}) as { name?: unknown; data?: unknown; iconUrl?: unknown };
+  return {
+    name: String(s.name ?? ''),
+    data: s.data,
+    iconUrl: typeof s.iconUrl === 'string' ? s.iconUrl : undefined,
+  };
+}
+
+export function createParameters(options: ParametersOptions): PluginParameters {
+  const { executionId, sendToUI } = options;
+  const handlers: Array<{ handler: InputHandler; once: boolean }> = [];
+
+  function checkType(type: string): void {
+    if (type !== 'input') throw new Error(`figma.parameters: unknown event type '${type}'`);
+  }
+
+  function createResult(key: string, query: string): SuggestionResults {
+    const send = (payload: { suggestions?: ParameterSuggestion[]; error?: string; loadingMessage?: string }) => {
+      sendToUI({
+        type: 'PARAMETER_SUGGESTIONS',
+        payload: { executionId, key, query, suggestions: payload.suggestions ?? [], error: payload.error, loadingMessage: payload.loadingMessage },
+      });
+    };
+    return {
+      setSuggestions(suggestions) {
+        if (!Array.isArray(suggestions)) throw new Error('setSuggestions expects an array');
+        send({ suggestions: suggestions.map(toSuggestion) });
+      },
+      setError(message: string) {
+        send({ error: String(message) });
+      },
+      setLoadingMessage(message: string) {
+        send({ loadingMessage: String(message) });
+      },
+    };
+  }
+
+  const api: ParametersAPI = {
+    on(type, callback) {
+      checkType(type);
+      handlers.push({ handler: callback, once: false });
+    },
+    once(type, callback) {
+      checkType(type);
+      handlers.push({ handler: callback, once: true });
+    },
+    off(type, callback) {
+      checkType(type);
+      for (let i = handlers.length - 1; i >= 0; i--) {
+        if (handlers[i].handler === callback) handlers.splice(i, 1);
+      }
+    },
+  };
+
+  return {
+    api,
+
+    input(key: string, query: string, values: ParameterValues): void {
+      for (const entry of handlers.slice()) {
+        if (entry.once) handlers.splice(handlers.indexOf(entry), 1);
+        try {
+          entry.handler({ key, query, parameters: values, result: createResult(key, query) });
+        } catch (err) {
+          options.logger.error('[Runner] Erreur dans le handler figma.parameters.on(\'input\'):', err);
+        }
+      }
+    },
+  };
+}
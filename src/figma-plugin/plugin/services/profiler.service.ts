@@ -0,0 +1,91 @@
+// ============================================================
+// profiler.service.ts - Figma API usage profile of an execution
+//
+// The figma proxy (ui-bridge.service.ts) reports every property
+// read, write and method call of plugin code. Entries are keyed by
+// `figma.<name>`, `figma.<namespace>.<name>` or `node.<name>`;
+// async methods (loadFontAsync...) are timed until they settle.
+// The profile is sent as EXECUTION_PROFILE when the run ends.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { ApiProfile, ApiProfileEntry, ApiAccessKind, SlowApiCall } from '../types/messages.types';
+
+const MAX_SLOWEST = 10;
+
+export interface Profiler {
+  /** Timestamp to pass back to record() */
+  start: () => number;
+  record: (kind: ApiAccessKind, name: string, startedAt: number, async?: boolean) => void;
+  /** Runs and times `fn`; a promise result is timed until it settles */
+  measure: <T>(kind: ApiAccessKind, name: string, fn: () => T) => T;
+  summary: () => ApiProfile;
+}
+
+// The sandbox may lack `performance`: millisecond clock then
+const now: () => number = typeof performance !== 'undefined' && typeof performance.now === 'function'
+  ? () => performance.now()
+  : () => Date.now();
+
+export function createProfiler(): Profiler {
+  const entries = new Map<string, ApiProfileEntry>();
+  const slowest: SlowApiCall[] = [];
+  const startedAt = now();
+  let totalCalls = 0;
+  let totalMs = 0;
+
+  function record(kind: ApiAccessKind, name: string, start: number, async = false): void {
+    const durationMs = now() - start;
+    const key = `${kind}:${name}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { name, kind, count: 0, totalMs: 0, maxMs: 0 };
+      entries.set(key, entry);
+    }
+    entry.count++;
+    entry.totalMs += durationMs;
+    if (durationMs > entry.maxMs) entry.maxMs = durationMs;
+    totalCalls++;
+    totalMs += durationMs;
+
+    if (slowest.length < MAX_SLOWEST || durationMs > slowest[slowest.length - 1].durationMs) {
+      slowest.push({ name, kind, durationMs, at: start - startedAt, async });
+      slowest.sort((a, b) => b.durationMs - a.durationMs);
+      if (slowest.length > MAX_SLOWEST) slowest.pop();
+    }
+  }
+
+  function measure<T>(kind: ApiAccessKind, name: string, fn: () => T): T {
+    const start = now();
+    let result: T;
+    try {
+      result = fn();
+    } catch (err) {
+      record(kind, name, start);
+      throw err;
+    }
+    if (result && typeof (result as unknown as Promise<unknown>).then === 'function') {
+      const settle = () => record(kind, name, start, true);
+      (result as unknown as Promise<unknown>).then(settle, settle);
+    } else {
+      record(kind, name, start);
+    }
+    return result;
+  }
+
+  return {
+    start: now,
+    record,
+    measure,
+
+    summary(): ApiProfile {
+      return {
+        totalCalls,
+        totalMs,
+        entries: Array.from(entries.values()).sort((a, b) => b.totalMs - a.totalMs || b.count - a.count),
+        slowest: slowest.slice(),
+      };
+    },
+  };
+}
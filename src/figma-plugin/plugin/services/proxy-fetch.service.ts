@@ -9,26 +9,67 @@
 //     -> code.js sends PROXY_FETCH_REQUEST to ui.html
 //     -> ui.html calls proxy edge function
 //     -> ui.html sends PROXY_FETCH_RESPONSE back to code.js
-//     -> Promise resolves with a Response-like object
+//     -> Promise resolves with a Response (fetch-api.service.ts)
+//
+// URLs are checked against the plugin's manifest networkAccess first
+// (network-access.service.ts); refused requests never leave code.js.
+//
+// `init.signal` (the sandbox AbortController, run-signal.service.ts,
+// or any AbortSignal-like object) cancels a request: it rejects with
+// an AbortError and ui.html aborts the real fetch
+// (PROXY_FETCH_ABORT). `init.timeout` (ms) replaces the default
+// timeout of PROXY_FETCH_TIMEOUT_MS for one request.
+//
+// Input and init follow the Fetch API: a Request, Headers in any
+// form, and bodies (string, URLSearchParams, FormData, Blob, bytes)
+// sent with their default Content-Type. Bodies cross the bridge as a
+// string (text) or a Uint8Array (binary: images for
+// figma.createImage, exported PNGs...). The proxy always follows
+// redirects: with `redirect: 'error'` or `'manual'`, a response it
+// reports as redirected rejects instead.
 //
 // Runs in code.js sandbox (no DOM, no real fetch).
 // ============================================================
 
 import type { PluginMessage } from '../types/messages.types';
+import type { NetworkPolicy } from './network-access.service';
+import type { RunLogger } from './console.service';
+import { createAbortError } from './run-signal.service';
+import { Request, createNetworkResponse, headersToRecord } from './fetch-api.service';
+import type { ProxyBody, RequestInitLike, Response, SignalLike } from './fetch-api.service';
 
 const PROXY_FETCH_TIMEOUT_MS = 30_000;
 
 interface PendingRequest {
-  resolve: (response: ProxyResponse) => void;
-  reject: (error: Error) => void;
-  timer: ReturnType<typeof setTimeout>;
+  executionId: string;
+  /** Requested URL, response.url when ui.html does not report the final one */
+  url: string;
+  /** request.redirect: the proxy always follows, 'error' / 'manual' reject a redirected response */
+  redirect: 'follow' | 'error' | 'manual';
+  logger: RunLogger;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Stops listening to the request signal */
+  detach: () => void;
+  onSettled?: () => void;
 }
 
+export type ProxyFetchInit = RequestInitLike & {
+  /** Timeout of this request in ms, instead of PROXY_FETCH_TIMEOUT_MS; 0 disables it */
+  timeout?: number;
+};
+
 const pendingRequests = new Map<string, PendingRequest>();
 
 interface ProxyFetchCallbacks {
   sendToUI: (msg: PluginMessage) => void;
   getExecutionId: () => string | null;
+  networkPolicy: NetworkPolicy;
+  /** Console of the execution the requests belong to */
+  logger: RunLogger;
+  /** Called once a request is answered, aborted or timed out (session end check) */
+  onSettled?: () => void;
 }
 
 function uuidv4(): string {
@@ -39,119 +80,97 @@ function uuidv4(): string {
   });
 }
 
-class ProxyResponse {
-  readonly ok: boolean;
-  readonly status: number;
-  readonly statusText: string;
-  readonly headers: Record<string, string>;
-  private _body: string | null;
-  private _consumed = false;
-
-  constructor(data: {
-    ok: boolean;
-    status: number;
-    statusText: string;
-    headers: Record<string, string>;
-    body: string | null;
-  }) {
-    this.ok = data.ok;
-    this.status = data.status;
-    this.statusText = data.statusText;
-    this.headers = data.headers;
-    this._body = data.body;
-  }
-
-  async text(): Promise<string> {
-    if (this._consumed) throw new Error('Response body already consumed');
-    this._consumed = true;
-    return this._body || '';
-  }
-
-  async json(): Promise<unknown> {
-    if (this._consumed) throw new Error('Response body already consumed');
-    this._consumed = true;
-    if (!this._body) return null;
-    return JSON.parse(this._body);
-  }
-
-  async blob(): Promise<{ size: number; type: string; text: string }> {
-    if (this._consumed) throw new Error('Response body already consumed');
-    this._consumed = true;
-    const text = this._body || '';
-    return {
-      size: text.length,
-      type: this.headers['content-type'] || 'application/octet-stream',
-      text,
-    };
-  }
-
-  async arrayBuffer(): Promise<never> {
-    throw new Error('[proxy-fetch] arrayBuffer() not supported in Figma sandbox');
-  }
-
-  clone(): ProxyResponse {
-    return new ProxyResponse({
-      ok: this.ok,
-      status: this.status,
-      statusText: this.statusText,
-      headers: { ...this.headers },
-      body: this._body,
-    });
-  }
-}
-
 export function createProxyFetch(
   callbacks: ProxyFetchCallbacks,
-): (input: string | URL, init?: RequestInit) => Promise<ProxyResponse> {
-  return (input: string | URL, init?: RequestInit): Promise<ProxyResponse> => {
+): (input: string | URL | Request, init?: ProxyFetchInit) => Promise<Response> {
+  return (input: string | URL | Request, init?: ProxyFetchInit): Promise<Response> => {
     const executionId = callbacks.getExecutionId();
     if (!executionId) {
       return Promise.reject(new Error('[proxy-fetch] No active execution'));
     }
 
-    const url = typeof input === 'string' ? input : String(input);
-    const method = (init?.method || 'GET').toUpperCase();
-
-    const headers: Record<string, string> = {};
-    if (init?.headers) {
-      if (Array.isArray(init.headers)) {
-        for (const [k, v] of init.headers as [string, string][]) {
-          headers[k] = v;
-        }
-      } else {
-        const h = init.headers as Record<string, string>;
-        for (const k of Object.keys(h)) {
-          headers[k] = h[k];
-        }
-      }
+    let request: Request;
+    try {
+      request = new Request(input, init);
+    } catch (err) {
+      return Promise.reject(err);
     }
-
-    let body: string | null = null;
-    if (init?.body != null) {
-      body = typeof init.body === 'string' ? init.body : JSON.stringify(init.body);
+    const { url, method, signal } = request;
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
     }
+    const timeoutMs = typeof init?.timeout === 'number' && init.timeout >= 0 ? init.timeout : PROXY_FETCH_TIMEOUT_MS;
 
-    const requestId = uuidv4();
+    const verdict = callbacks.networkPolicy.check(url);
+    if (verdict === 'invalid') {
+      return Promise.reject(new TypeError(`Failed to fetch: invalid URL '${url}'`));
+    }
+    if (verdict === 'blocked') {
+      // Same wording as the CSP error Figma prints for undeclared domains
+      callbacks.logger.error(
+        `Refused to connect to '${url}' because it violates the following Content Security Policy directive: `
+        + `"connect-src ${callbacks.networkPolicy.sources}". Add the domain to networkAccess.allowedDomains in manifest.json.`,
+      );
+      return Promise.reject(new TypeError('Failed to fetch'));
+    }
+    if (verdict === 'dev-only') {
+      callbacks.logger.warn(`[proxy-fetch] ${url} is only allowed by networkAccess.devAllowedDomains: it will be refused once the plugin is published`);
+    }
 
-    return new Promise<ProxyResponse>((resolve, reject) => {
-      const timer = setTimeout(() => {
-        pendingRequests.delete(requestId);
-        console.error(`[proxy-fetch] Timeout after ${PROXY_FETCH_TIMEOUT_MS / 1000}s: ${method} ${url}`);
-        reject(new Error(`Network error: timeout after ${PROXY_FETCH_TIMEOUT_MS / 1000}s for ${method} ${url}`));
-      }, PROXY_FETCH_TIMEOUT_MS);
+    const headers = headersToRecord(request.headers);
+    const body = request.rawBody;
 
-      pendingRequests.set(requestId, { resolve, reject, timer });
+    const requestId = uuidv4();
 
-      console.log(`[proxy-fetch] ${method} ${url}`);
+    return new Promise<Response>((resolve, reject) => {
+      // Ends the request on code.js side and tells ui.html to abort the real fetch
+      const cancel = (reason: unknown) => {
+        const pending = pendingRequests.get(requestId);
+        if (!pending) return;
+        settle(requestId, pending);
+        callbacks.sendToUI({ type: 'PROXY_FETCH_ABORT', payload: { executionId, requestId } });
+        reject(reason);
+      };
+
+      const timer = timeoutMs > 0
+        ? setTimeout(() => {
+          callbacks.logger.error(`[proxy-fetch] Timeout after ${timeoutMs / 1000}s: ${method} ${url}`);
+          const err = new Error(`Network error: timeout after ${timeoutMs / 1000}s for ${method} ${url}`);
+          err.name = 'TimeoutError';
+          cancel(err);
+        }, timeoutMs)
+        : null;
+
+      const onAbort = () => {
+        callbacks.logger.log(`[proxy-fetch] Aborted: ${method} ${url}`);
+        cancel(abortReason(signal));
+      };
+      signal?.addEventListener?.('abort', onAbort);
+      const detach = () => signal?.removeEventListener?.('abort', onAbort);
+
+      pendingRequests.set(requestId, { executionId, url, redirect: request.redirect, logger: callbacks.logger, resolve, reject, timer, detach, onSettled: callbacks.onSettled });
+
+      callbacks.logger.log(`[proxy-fetch] ${method} ${url}`);
 
       callbacks.sendToUI({
         type: 'PROXY_FETCH_REQUEST',
-        payload: { requestId, url, method, headers, body },
+        payload: { executionId, requestId, url, method, headers, body },
       });
     });
   };
 }
 
+function abortReason(signal: SignalLike | null): unknown {
+  return signal && signal.reason !== undefined ? signal.reason : createAbortError('The operation was aborted.');
+}
+
+function settle(requestId: string, pending: PendingRequest): void {
+  if (pending.timer !== null) clearTimeout(pending.timer);
+  pending.detach();
+  pendingRequests.delete(requestId);
+  pending.onSettled?.();
+}
+
 export function resolveRequest(
   requestId: string,
   data: {
@@ -159,31 +178,53 @@ export function resolveRequest(
     status: number;
     statusText: string;
     headers: Record<string, string>;
-    body: string | null;
+    body: ProxyBody | null;
+    url?: string;
+    redirected?: boolean;
     error?: string;
   },
 ): void {
   const pending = pendingRequests.get(requestId);
   if (!pending) return;
-
-  clearTimeout(pending.timer);
-  pendingRequests.delete(requestId);
+  settle(requestId, pending);
 
   if (data.error) {
-    console.error(`[proxy-fetch] Error: ${data.error}`);
+    pending.logger.error(`[proxy-fetch] Error: ${data.error}`);
     pending.reject(new Error(`[proxy-fetch] ${data.error}`));
+  } else if (data.redirected && pending.redirect !== 'follow') {
+    // 'manual' would need the redirect itself (opaqueredirect): the proxy only returns the final response
+    pending.logger.error(`[proxy-fetch] ${pending.url} was redirected to ${data.url || '?'} but redirect is '${pending.redirect}'`);
+    pending.reject(new TypeError('Failed to fetch'));
   } else {
-    console.log(`[proxy-fetch] Response: ${data.status} ${data.statusText}`);
-    pending.resolve(new ProxyResponse(data));
+    pending.logger.log(`[proxy-fetch] Response: ${data.status} ${data.statusText}`);
+    pending.resolve(createNetworkResponse({
+      status: data.status,
+      statusText: data.statusText,
+      headers: data.headers,
+      body: data.body,
+      url: data.url || pending.url,
+      redirected: data.redirected ?? false,
+    }));
   }
 }
 
-export function cleanup(): void {
-  for (const [, pending] of pendingRequests) {
-    clearTimeout(pending.timer);
+/** Rejects the pending requests of an execution that ended; ui.html aborts their fetch */
+export function cleanup(executionId: string, sendToUI: (msg: PluginMessage) => void): void {
+  for (const [requestId, pending] of pendingRequests) {
+    if (pending.executionId !== executionId) continue;
+    settle(requestId, pending);
+    sendToUI({ type: 'PROXY_FETCH_ABORT', payload: { executionId, requestId } });
     pending.reject(new Error('[proxy-fetch] Execution ended'));
   }
-  pendingRequests.clear();
+}
+
+/** Requests of an execution still waiting for ui.html: the plugin may not await them */
+export function pendingCountFor(executionId: string): number {
+  let count = 0;
+  pendingRequests.forEach((pending) => {
+    if (pending.executionId === executionId) count++;
+  });
+  return count;
 }
 
 export function pendingCount(): number {
@@ -0,0 +1,108 @@
+// ============================================================
+// run-signal.service.ts - AbortSignal-like object for plugin code
+//
+// Exposed to plugin code as `__runSignal__` so cooperative plugins
+// can stop their async work when the run is stopped, times out, is
+// replaced or ends:
+//
+//   if (__runSignal__.aborted) return;
+//   __runSignal__.addEventListener('abort', () => clearState());
+//   __runSignal__.throwIfAborted();
+//
+// The sandbox has no AbortController, hence this small copy of its API,
+// also given to plugin code as `AbortController` (fetch signals).
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { RunLogger } from './console.service';
+
+type AbortListener = (event: { type: 'abort'; target: RunSignal }) => void;
+
+export interface RunSignal {
+  readonly aborted: boolean;
+  readonly reason: unknown;
+  onabort: AbortListener | null;
+  addEventListener: (type: string, listener: AbortListener) => void;
+  removeEventListener: (type: string, listener: AbortListener) => void;
+  throwIfAborted: () => void;
+}
+
+export interface RunController {
+  signal: RunSignal;
+  abort: (reason: unknown) => void;
+}
+
+/** Error thrown to plugin code once its run is over */
+export function createAbortError(message: string): Error {
+  const err = new Error(message);
+  err.name = 'AbortError';
+  return err;
+}
+
+export function createRunController(logger: RunLogger): RunController {
+  const listeners: AbortListener[] = [];
+  let aborted = false;
+  let reason: unknown = undefined;
+
+  const signal: RunSignal = {
+    get aborted() {
+      return aborted;
+    },
+    get reason() {
+      return reason;
+    },
+    onabort: null,
+
+    addEventListener(type: string, listener: AbortListener): void {
+      if (type !== 'abort' || typeof listener !== 'function' || aborted) return;
+      if (listeners.indexOf(listener) === -1) listeners.push(listener);
+    },
+
+    removeEventListener(type: string, listener: AbortListener): void {
+      const index = type === 'abort' ? listeners.indexOf(listener) : -1;
+      if (index !== -1) listeners.splice(index, 1);
+    },
+
+    throwIfAborted(): void {
+      if (aborted) throw reason;
+    },
+  };
+
+  return {
+    signal,
+
+    abort(abortReason: unknown): void {
+      if (aborted) return;
+      aborted = true;
+      reason = abortReason;
+      const event = { type: 'abort' as const, target: signal };
+      const handlers = signal.onabort ? [signal.onabort, ...listeners] : listeners.slice();
+      listeners.length = 0;
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch (err) {
+          logger.error('[Runner] Erreur dans un listener abort:', err);
+        }
+      }
+    },
+  };
+}
+
+/** `AbortController` for plugin code: `new AbortController()`, `abort(reason?)` */
+export function createAbortControllerClass(logger: RunLogger): new () => RunController {
+  return class AbortController implements RunController {
+    readonly signal: RunSignal;
+    private readonly controller: RunController;
+
+    constructor() {
+      this.controller = createRunController(logger);
+      this.signal = this.controller.signal;
+    }
+
+    abort(reason?: unknown): void {
+      this.controller.abort(reason !== undefined ? reason : createAbortError('signal is aborted without reason'));
+    }
+  };
+}
@@ -0,0 +1,204 @@
+// ============================================================
+// stack-mapper.service.ts - Map plugin stack traces to bundle sources
+//
+// Stack frames of executed modules look like
+//   at main (vibe-bundle:///src/main.js:14:7)
+// with line numbers shifted by the `new Function` wrapper. This
+// service removes the wrapper offset and, when the bundle ships a
+// source map (`//# sourceMappingURL=` comment, inline data: URL or
+// a sibling `<file>.map`), maps the position to the original file.
+//
+// Runs in code.js sandbox (no DOM, no fetch, no atob).
+// ============================================================
+
+import type { BundleFile, StackFrame } from '../types/runner.types';
+import { BUNDLE_SOURCE_URL, getWrapperLineOffset, normalizePath } from './module-loader.service';
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// [generatedColumn, sourceIndex, sourceLine, sourceColumn]
+type Segment = [number, number, number, number];
+
+interface SourceMap {
+  sources: string[];
+  /** Decoded mappings, indexed by 0-based generated line */
+  lines: Segment[][];
+}
+
+export interface MappedStack {
+  stack?: string;
+  frames: StackFrame[];
+}
+
+export interface StackMapper {
+  mapStack: (stack: string | undefined) => MappedStack;
+}
+
+// --- Base64 / VLQ decoding ---
+
+function decodeBase64(input: string): string {
+  const clean = input.replace(/[^A-Za-z0-9+/]/g, '');
+  let out = '';
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_CHARS.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out += String.fromCharCode((buffer >> bits) & 0xff);
+    }
+  }
+  try {
+    return decodeURIComponent(escape(out));
+  } catch {
+    return out;
+  }
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  for (const lineText of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+    for (const segmentText of lineText.split(',')) {
+      if (!segmentText) continue;
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (let i = 0; i < segmentText.length; i++) {
+        const digit = BASE64_CHARS.indexOf(segmentText[i]);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      generatedColumn += values[0];
+      if (values.length < 4) continue;
+      sourceIndex += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+      segments.push([generatedColumn, sourceIndex, sourceLine, sourceColumn]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+// --- Source map loading ---
+
+function dirname(path: string): string {
+  const idx = path.lastIndexOf('/');
+  return idx === -1 ? '' : path.slice(0, idx);
+}
+
+function resolveSource(mapPath: string, sourceRoot: string, source: string): string {
+  if (/^[a-z][\w+.-]*:\/\//i.test(source) && !/^webpack:\/\//.test(source)) return source;
+  const stripped = source.replace(/^webpack:\/\/[^/]*\//, '');
+  return normalizePath(`${dirname(mapPath)}/${sourceRoot}/${stripped}`);
+}
+
+function parseSourceMap(json: string, mapPath: string): SourceMap | null {
+  try {
+    const raw = JSON.parse(json) as { sources?: string[]; sourceRoot?: string; mappings?: string };
+    if (!raw || typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) return null;
+    const sourceRoot = raw.sourceRoot || '';
+    return {
+      sources: raw.sources.map((s) => resolveSource(mapPath, sourceRoot, s)),
+      lines: decodeMappings(raw.mappings),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function findSourceMap(path: string, content: string, files: Map<string, BundleFile>): SourceMap | null {
+  const match = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/m.exec(content);
+  if (match) {
+    const url = match[1];
+    const inline = /^data:application\/json[^,]*?(;base64)?,(.*)$/.exec(url);
+    if (inline) {
+      const json = inline[1] ? decodeBase64(inline[2]) : decodeURIComponent(inline[2]);
+      return parseSourceMap(json, path);
+    }
+    const mapPath = normalizePath(`${dirname(path)}/${url}`);
+    const mapFile = files.get(mapPath);
+    if (mapFile) return parseSourceMap(mapFile.content, mapPath);
+  }
+  const sibling = files.get(`${path}.map`);
+  return sibling ? parseSourceMap(sibling.content, `${path}.map`) : null;
+}
+
+function lookup(map: SourceMap, line: number, column: number): { file: string; line: number; column: number } | null {
+  const segments = map.lines[line - 1];
+  if (!segments || segments.length === 0) return null;
+  let found: Segment | null = null;
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    found = segment;
+  }
+  if (!found) found = segments[0];
+  const file = map.sources[found[1]];
+  if (!file) return null;
+  return { file, line: found[2] + 1, column: found[3] + 1 };
+}
+
+// --- Public API ---
+
+export function createStackMapper(bundleFiles: BundleFile[]): StackMapper {
+  const files = new Map<string, BundleFile>();
+  for (const file of bundleFiles) {
+    files.set(normalizePath(file.path), file);
+  }
+  const maps = new Map<string, SourceMap | null>();
+  const prefix = BUNDLE_SOURCE_URL.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const locationPattern = new RegExp(`${prefix}([^\\s():]+):(\\d+)(?::(\\d+))?`, 'g');
+
+  function getMap(path: string): SourceMap | null {
+    if (!maps.has(path)) {
+      const file = files.get(path);
+      maps.set(path, file ? findSourceMap(path, file.content, files) : null);
+    }
+    return maps.get(path) as SourceMap | null;
+  }
+
+  function mapLocation(path: string, rawLine: number, rawColumn: number): { file: string; line: number; column: number } {
+    const line = Math.max(1, rawLine - getWrapperLineOffset());
+    const map = getMap(path);
+    const mapped = map ? lookup(map, line, rawColumn) : null;
+    return mapped || { file: path, line, column: rawColumn };
+  }
+
+  return {
+    mapStack(stack: string | undefined): MappedStack {
+      if (!stack) return { stack, frames: [] };
+      const frames: StackFrame[] = [];
+
+      const mappedLines = stack.split('\n').map((text) => {
+        locationPattern.lastIndex = 0;
+        if (!locationPattern.test(text)) return text;
+
+        // "at name (url:l:c)" (V8) or "name@url:l:c" (SpiderMonkey / JSC)
+        const nameMatch = /^\s*at\s+(.+?)\s+\(/.exec(text) || /^\s*([^@\s]+)@/.exec(text);
+        const functionName = nameMatch ? nameMatch[1] : null;
+
+        locationPattern.lastIndex = 0;
+        return text.replace(locationPattern, (_m, path: string, l: string, c?: string) => {
+          const loc = mapLocation(path, parseInt(l, 10), c ? parseInt(c, 10) : 1);
+          frames.push({ file: loc.file, line: loc.line, column: loc.column, functionName });
+          return `${loc.file}:${loc.line}:${loc.column}`;
+        });
+      });
+
+      return { stack: mappedLines.join('\n'), frames };
+    },
+  };
+}
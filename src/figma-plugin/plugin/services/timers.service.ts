@@ -0,0 +1,160 @@
+// ============================================================
+// timers.service.ts - Execution-scoped timers for plugin code
+//
+// Plugin code gets its own setTimeout / setInterval /
+// requestAnimationFrame (and their clear* counterparts) instead of
+// the sandbox globals. Every pending timer is tracked so the run
+// can clear them all when it ends, times out or is replaced:
+// polling loops no longer survive Stop.
+//
+// Runs in code.js sandbox (no DOM, no fetch).
+// ============================================================
+
+import type { RunLogger } from './console.service';
+
+const FRAME_INTERVAL_MS = 16; // ~60fps for requestAnimationFrame
+// Count changes other than to / from 0 are sent at most this often
+const NOTIFY_INTERVAL_MS = 250;
+
+type TimerKind = 'timeout' | 'interval' | 'frame';
+
+interface Timer {
+  kind: TimerKind;
+  handle: ReturnType<typeof setTimeout>;
+}
+
+export interface ExecutionTimers {
+  /** Functions injected into plugin code */
+  globals: {
+    setTimeout: (fn: unknown, delay?: number, ...args: unknown[]) => number;
+    clearTimeout: (id?: number) => void;
+    setInterval: (fn: unknown, delay?: number, ...args: unknown[]) => number;
+    clearInterval: (id?: number) => void;
+    requestAnimationFrame: (fn: (time: number) => void) => number;
+    cancelAnimationFrame: (id?: number) => void;
+  };
+  pendingCount: () => number;
+  clearAll: () => void;
+}
+
+interface TimersOptions {
+  logger: RunLogger;
+  /**
+   * Called with the new pending count: at once when it reaches or
+   * leaves 0, otherwise coalesced (a requestAnimationFrame loop must
+   * not post a message per frame)
+   */
+  onChange?: (pending: number) => void;
+  /** Compiles string callbacks in the scope of plugin code (module-loader.service.ts) */
+  compile?: (code: string) => Function;
+}
+
+export function createExecutionTimers(options: TimersOptions): ExecutionTimers {
+  const timers = new Map<number, Timer>();
+  const startedAt = Date.now();
+  let nextId = 1;
+  let cleared = false;
+  let notified = 0;
+  let notifyHandle: ReturnType<typeof setTimeout> | null = null;
+
+  function flush(): void {
+    if (notifyHandle !== null) {
+      clearTimeout(notifyHandle);
+      notifyHandle = null;
+    }
+    if (cleared || timers.size === notified) return;
+    notified = timers.size;
+    options.onChange?.(notified);
+  }
+
+  function notify(): void {
+    if ((timers.size === 0) !== (notified === 0)) {
+      flush();
+    } else if (notifyHandle === null) {
+      notifyHandle = setTimeout(flush, NOTIFY_INTERVAL_MS);
+    }
+  }
+
+  function run(fn: Function, args: unknown[]): void {
+    try {
+      fn(...args);
+    } catch (err) {
+      options.logger.error('[Runner] Erreur dans un timer:', err);
+    }
+  }
+
+  function toFunction(fn: unknown): Function {
+    if (typeof fn === 'function') return fn;
+    // Like browsers, a string is evaluated; through Function to stay out of our scope
+    return options.compile ? options.compile(String(fn)) : new Function(String(fn));
+  }
+
+  function clear(id: number | undefined, kinds: TimerKind[]): void {
+    if (id === undefined) return;
+    const timer = timers.get(id);
+    if (!timer || kinds.indexOf(timer.kind) === -1) return;
+    if (timer.kind === 'interval') clearInterval(timer.handle);
+    else clearTimeout(timer.handle);
+    timers.delete(id);
+    notify();
+  }
+
+  // The timer stays pending while its callback runs, so a callback that
+  // schedules the next one never lets the count drop to 0 in between
+  function settle(id: number, callback: Function, args: unknown[]): void {
+    run(callback, args);
+    if (timers.delete(id)) notify();
+  }
+
+  function add(kind: TimerKind, handle: ReturnType<typeof setTimeout>, id: number): number {
+    timers.set(id, { kind, handle });
+    notify();
+    return id;
+  }
+
+  return {
+    globals: {
+      setTimeout(fn: unknown, delay = 0, ...args: unknown[]): number {
+        if (cleared) return 0;
+        const callback = toFunction(fn);
+        const id = nextId++;
+        const handle = setTimeout(() => settle(id, callback, args), delay);
+        return add('timeout', handle, id);
+      },
+
+      // Like browsers, clearTimeout and clearInterval share one id pool
+      clearTimeout: (id?: number) => clear(id, ['timeout', 'interval']),
+
+      setInterval(fn: unknown, delay = 0, ...args: unknown[]): number {
+        if (cleared) return 0;
+        const callback = toFunction(fn);
+        const id = nextId++;
+        const handle = setInterval(() => run(callback, args), delay);
+        return add('interval', handle, id);
+      },
+
+      clearInterval: (id?: number) => clear(id, ['timeout', 'interval']),
+
+      requestAnimationFrame(fn: (time: number) => void): number {
+        if (cleared) return 0;
+        const id = nextId++;
+        const handle = setTimeout(() => settle(id, fn, [Date.now() - startedAt]), FRAME_INTERVAL_MS);
+        return add('frame', handle, id);
+      },
+
+      cancelAnimationFrame: (id?: number) => clear(id, ['frame']),
+    },
+
+    pendingCount: () => timers.size,
+
+    clearAll(): void {
+      cleared = true;
+      if (notifyHandle !== null) clearTimeout(notifyHandle);
+      for (const timer of timers.values()) {
+        if (timer.kind === 'interval') clearInterval(timer.handle);
+        else clearTimeout(timer.handle);
+      }
+      timers.clear();
+    },
+  };
+}
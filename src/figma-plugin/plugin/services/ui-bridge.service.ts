@@ -3,7 +3,9 @@
 //
 // Creates a Proxy that intercepts plugin calls to figma.showUI(),
 // figma.ui.postMessage(), figma.ui.onmessage, figma.closePlugin(), etc.
-// and routes them through the Runner's message system.
+// and routes them through the Runner's message system. There is one
+// bridge per execution, so concurrent runs keep their own UI message
+// handler, listeners and proxies.
 //
 // IMPORTANT: The Proxy uses an empty object {} as its target instead
 // of the real `figma` global. This avoids the "proxy: inconsistent get"
@@ -12,29 +14,380 @@
 // returns a different value.
 //
 // The proxy is passed as a parameter to `new Function('figma', code)`,
-// shadowing the global `figma` ONLY within plugin code.
+// shadowing the global `figma` ONLY within plugin code. The scoped
+// global object of the modules (module-loader.service.ts) returns it
+// too, so `globalThis.figma` and `Function('return this')().figma`
+// also go through it.
+//
+// Nodes returned by the API are wrapped in proxies too (same {} target
+// trick), so property sets and method calls on them can be journaled
+// for "Revert this run" (journal.service.ts). Styles, variables and
+// variable collections are wrapped the same way, for the revocation
+// and the dry run below; the journal only tracks nodes. Wrapped
+// objects are unwrapped again whenever they are passed back to the
+// real API.
+//
+// Each proxy is revocable: once its run is over (bridge.reset()), every
+// access through it or through the nodes it returned throws, so
+// async plugin code left running cannot touch the document, whether
+// it kept a reference to `figma` or looks it up on globalThis.
+//
+// figma.on / once / off go through a per-execution registry
+// (events.service.ts) so listeners die with the run. figma.ui.on /
+// once / off('message') never reach the real figma.ui either: the
+// handlers are kept by the bridge and only get the messages of the
+// run's own UI (dispatch), like figma.ui.onmessage.
+//
+// In a dry run (dry-run.service.ts) the same hooks record every call
+// and property set; calls that would change the document are skipped.
+//
+// With a profiler (profiler.service.ts), every property read, write
+// and method call going through the proxies is counted and timed.
 //
 // Runs in code.js sandbox (no DOM, no fetch).
 // ============================================================
 
-import type { PluginMessage } from '../types/messages.types';
+import type { ListenerInfo, PluginMessage } from '../types/messages.types';
+import type { RunJournal } from './journal.service';
+import type { DocumentObject, DryRunRecorder } from './dry-run.service';
+import * as eventsService from './events.service';
+import type { EventRegistry } from './events.service';
+import { createAbortError } from './run-signal.service';
+import type { RunLogger } from './console.service';
+import type { Notifier } from './notify.service';
+import type { Profiler } from './profiler.service';
+import type { ApiAccessKind } from '../types/messages.types';
 
 const MAX_HTML_SIZE = 1_000_000; // 1MB
+// Nesting of event payloads searched for nodes (documentChanges[i].node...)
+const MAX_PAYLOAD_DEPTH = 4;
+
+// figma.* / node methods whose result is a node created by the call
+const CREATING_METHODS = /^(create[A-Z]\w*|clone|group|flatten|union|subtract|intersect|exclude|combineAsVariants)$/;
 
 export interface UIBridgeCallbacks {
   sendToUI: (msg: PluginMessage) => void;
+  /** Id of the bridge's execution, null once it is over */
   getExecutionId: () => string | null;
-  onClosePlugin?: () => void;
-  onResizeRunner?: (width: number, height: number) => void;
+  /** Console of the execution, for errors thrown by plugin handlers */
+  logger: RunLogger;
+  /** figma.closePlugin(message?) */
+  onClosePlugin?: (message?: string) => void;
+  /** Surfaces figma.notify() in the Runner */
+  notifier?: Notifier;
+  /** figma.command of the run */
+  command?: string;
+  /** figma.parameters, driven by the Runner's parameter input */
+  parameters?: ParametersAPI;
+  /** Called whenever plugin code touches the figma API or receives a UI message (idle tracking) */
+  onActivity?: () => void;
+  /** Called when plugin code closes its UI with figma.ui.close() */
+  onUIClose?: () => void;
+  /** Records document changes made through the proxy */
+  journal?: RunJournal;
+  /** Set for a dry run: records calls and skips document mutations */
+  dryRun?: DryRunRecorder;
+  /** Namespaced figma.clientStorage given to plugin code */
+  clientStorage?: ClientStorageAPI;
+  /** Called when plugin code adds or removes figma.on() listeners */
+  onListenersChange?: (listeners: ListenerInfo[]) => void;
+  /** Counts and times figma API accesses of the run */
+  profiler?: Profiler;
+  /** Called when a promise returned by the figma API settles (session end check) */
+  onAsyncSettled?: () => void;
+}
+
+export interface UIBridge {
+  /** Proxy given to plugin code as `figma` */
+  figma: typeof figma;
+  /** Delivers a message from the plugin UI to its figma.ui.onmessage and figma.ui.on('message') handlers */
+  dispatch: (data: unknown) => void;
+  /** True while the plugin keeps something alive that can still run its code (UI, event listeners, figma API promises) */
+  hasActiveHandles: () => boolean;
+  /** Fires the plugin's `close` handlers and unregisters all its figma.on() listeners */
+  closeListeners: () => void;
+  /** Fires a Runner-emitted event (`run`) to the plugin's figma.on() listeners */
+  emit: (event: string, ...args: unknown[]) => Promise<void> | undefined;
+  /** Ends the bridge; `revokedMessage` is thrown by any later figma access */
+  reset: (revokedMessage?: string) => void;
+}
+
+// --- Revocation ---
+
+interface ProxyGuard {
+  /** Set once the run is over: the error message thrown on any access */
+  revokedMessage: string | null;
+}
+
+function assertActive(guard: ProxyGuard, path: string): void {
+  if (guard.revokedMessage === null) return;
+  throw createAbortError(`${guard.revokedMessage}: ${path} is no longer available`);
+}
+
+// --- Node wrapping ---
+
+interface NodeWrapper {
+  wrap: (value: unknown) => unknown;
+  unwrap: (value: unknown) => unknown;
+  /** Calls a real figma / document object method with unwrapped args and a wrapped result */
+  call: (target: DocumentObject | null, method: string, fn: Function, args: unknown[]) => unknown;
+  /** Proxy for a figma.* sub-API object (viewport, util, variables...) */
+  wrapNamespace: (name: string, api: object) => object;
+  /** Reads a property, timed for the profiler unless it is a method */
+  read: (name: string, prop: string | symbol, get: () => unknown) => unknown;
+  /** Runs a real API access, timed for the profiler */
+  measure: <T>(kind: ApiAccessKind, name: string, fn: () => T) => T;
+  /** Promises returned by the figma API that have not settled yet */
+  pending: () => number;
+}
+
+function isNode(value: unknown): value is BaseNode {
+  return !!value && typeof value === 'object'
+    && typeof (value as BaseNode).id === 'string'
+    && typeof (value as BaseNode).type === 'string'
+    && 'parent' in value;
+}
+
+// Styles, variables and collections: an id and a remove() like nodes, no parent
+function isDocumentObject(value: unknown): value is DocumentObject {
+  return isNode(value) || (!!value && typeof value === 'object'
+    && typeof (value as DocumentObject).id === 'string'
+    && typeof (value as DocumentObject).remove === 'function');
+}
+
+/** Name of the object kind in error messages and profiler entries: node, style, variable... */
+function kindOf(value: DocumentObject): string {
+  if (isNode(value)) return 'node';
+  if ('type' in value) return 'style';
+  return 'resolvedType' in value ? 'variable' : 'variableCollection';
+}
+
+function describe(value: DocumentObject): string {
+  return 'type' in value ? `${value.type} ${kindOf(value)}` : kindOf(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Copy of an event payload where the document objects it holds are
+ * wrapped: `documentchange` nodes sit in `documentChanges[i].node`,
+ * `drop` in `event.node`. Objects of other classes are passed as is.
+ */
+function wrapPayload(value: unknown, wrap: (value: unknown) => unknown, depth = 0): unknown {
+  if (isDocumentObject(value) || depth > MAX_PAYLOAD_DEPTH) return wrap(value);
+  if (Array.isArray(value)) return value.map((item) => wrapPayload(item, wrap, depth + 1));
+  if (!isPlainObject(value)) return value;
+  const copy: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    copy[key] = wrapPayload(value[key], wrap, depth + 1);
+  }
+  return copy;
+}
+
+function createNodeWrapper(callbacks: UIBridgeCallbacks, guard: ProxyGuard): NodeWrapper {
+  const proxyByNode = new Map<string, object>();
+  const nodeByProxy = new WeakMap<object, DocumentObject>();
+  let inFlight = 0;
+
+  // The plugin may not await them (loadFontAsync(...).then(...)): the
+  // session stays open until they settle
+  function track(promise: PromiseLike<unknown>, onResolved: (value: unknown) => unknown): Promise<unknown> {
+    inFlight++;
+    const settle = () => {
+      inFlight--;
+      callbacks.onAsyncSettled?.();
+    };
+    return Promise.resolve(promise).then(
+      (value) => { settle(); return onResolved(value); },
+      (err) => { settle(); throw err; },
+    );
+  }
+
+  function wrap(value: unknown): unknown {
+    if (isDocumentObject(value)) {
+      const cached = proxyByNode.get(value.id);
+      if (cached && nodeByProxy.get(cached) === value) return cached;
+      const proxy = createNodeProxy(value);
+      proxyByNode.set(value.id, proxy);
+      nodeByProxy.set(proxy, value);
+      return proxy;
+    }
+    if (Array.isArray(value) && value.some(isDocumentObject)) {
+      return value.map(wrap);
+    }
+    return value;
+  }
+
+  function unwrap(value: unknown): unknown {
+    if (value && typeof value === 'object') {
+      const node = nodeByProxy.get(value);
+      if (node) return node;
+      if (Array.isArray(value)) return value.map(unwrap);
+    }
+    return value;
+  }
+
+  function recordCreated(result: unknown): void {
+    if (!callbacks.journal) return;
+    const nodes = Array.isArray(result) ? result : [result];
+    for (const node of nodes) {
+      if (isNode(node)) callbacks.journal.recordCreate(node);
+    }
+  }
+
+  function measure<T>(kind: ApiAccessKind, name: string, fn: () => T): T {
+    return callbacks.profiler ? callbacks.profiler.measure(kind, name, fn) : fn();
+  }
+
+  // Methods are profiled when called, not when read. `then` is probed
+  // by promises resolved with a proxy: not an API access.
+  function read(name: string, prop: string | symbol, get: () => unknown): unknown {
+    const profiler = callbacks.profiler;
+    if (!profiler || typeof prop === 'symbol' || prop === 'then') return get();
+    const start = profiler.start();
+    const val = get();
+    if (typeof val !== 'function') profiler.record('get', name, start);
+    return val;
+  }
+
+  function call(target: DocumentObject | null, method: string, fn: Function, args: unknown[]): unknown {
+    // Methods read before the run ended may be called after
+    assertActive(guard, target === null ? `figma.${method}()` : `${describe(target)}.${method}()`);
+    const realArgs = args.map(unwrap);
+    const dryRun = callbacks.dryRun;
+    const simulated = !!dryRun && dryRun.isMutation(method);
+    dryRun?.recordCall(target, method, realArgs, !simulated);
+
+    let result: unknown;
+    if (simulated && !dryRun!.isVirtual(target)) {
+      result = dryRun!.fakeResult(target, method);
+    } else {
+      if (target === null || isNode(target)) callbacks.journal?.recordCall(target, method, realArgs);
+      result = measure('call', target === null ? `figma.${method}` : `${kindOf(target)}.${method}`,
+        () => fn.apply(target === null ? figma : target, realArgs));
+    }
+    const creates = CREATING_METHODS.test(method);
+    if (result && typeof (result as Promise<unknown>).then === 'function') {
+      return track(result as Promise<unknown>, (resolved) => {
+        if (creates) recordCreated(resolved);
+        return wrap(resolved);
+      });
+    }
+    if (creates) recordCreated(result);
+    return wrap(result);
+  }
+
+  function createNodeProxy(node: DocumentObject): object {
+    const kind = kindOf(node);
+    return new Proxy({}, {
+      get(_target, prop) {
+        assertActive(guard, `${describe(node)}.${String(prop)}`);
+        callbacks.onActivity?.();
+        const dryRun = callbacks.dryRun;
+        const val = read(`${kind}.${String(prop)}`, prop, () => dryRun && !dryRun.isVirtual(node)
+          ? dryRun.read(node, String(prop), () => (node as any)[prop])
+          : (node as any)[prop]);
+        if (typeof val === 'function') {
+          return (...args: unknown[]) => call(node, String(prop), val, args);
+        }
+        return wrap(val);
+      },
+
+      set(_target, prop, value) {
+        assertActive(guard, `${describe(node)}.${String(prop)}`);
+        const dryRun = callbacks.dryRun;
+        if (dryRun) {
+          dryRun.recordSet(node, String(prop), unwrap(value), false);
+          if (!dryRun.isVirtual(node)) {
+            dryRun.write(node, String(prop), unwrap(value));
+            return true;
+          }
+        }
+        if (isNode(node)) callbacks.journal?.recordSet(node, String(prop));
+        measure('set', `${kind}.${String(prop)}`, () => { (node as any)[prop] = unwrap(value); });
+        return true;
+      },
+
+      has(_target, prop) {
+        return prop in node;
+      },
+    });
+  }
+
+  const namespaces = new Map<string, object>();
+
+  function wrapNamespace(name: string, api: object): object {
+    const cached = namespaces.get(name);
+    if (cached) return cached;
+    const proxy = new Proxy({}, {
+      get(_target, prop) {
+        assertActive(guard, `figma.${name}.${String(prop)}`);
+        callbacks.onActivity?.();
+        const val = read(`figma.${name}.${String(prop)}`, prop, () => (api as any)[prop]) as any;
+        if (typeof val === 'function') {
+          return (...args: unknown[]) => {
+            assertActive(guard, `figma.${name}.${String(prop)}()`);
+            const realArgs = args.map(unwrap);
+            const dryRun = callbacks.dryRun;
+            const simulated = !!dryRun && dryRun.isMutation(String(prop));
+            dryRun?.recordCall(`figma.${name}`, String(prop), realArgs, !simulated);
+            const result = simulated
+              ? dryRun!.fakeResult(null, String(prop))
+              : measure('call', `figma.${name}.${String(prop)}`, () => val.apply(api, realArgs));
+            if (result && typeof result.then === 'function') {
+              return track(result, wrap);
+            }
+            return wrap(result);
+          };
+        }
+        return wrap(val);
+      },
+
+      set(_target, prop, value) {
+        assertActive(guard, `figma.${name}.${String(prop)}`);
+        if (callbacks.dryRun) {
+          callbacks.dryRun.recordSet(`figma.${name}`, String(prop), unwrap(value), false);
+          return true;
+        }
+        measure('set', `figma.${name}.${String(prop)}`, () => { (api as any)[prop] = unwrap(value); });
+        return true;
+      },
+
+      has(_target, prop) {
+        return prop in api;
+      },
+    });
+    namespaces.set(name, proxy);
+    return proxy;
+  }
+
+  return { wrap, unwrap, call, wrapNamespace, read, measure, pending: () => inFlight };
 }
 
-let pluginOnMessageHandler: ((msg: unknown, props?: unknown) => void) | null = null;
+type UIMessageHandler = (msg: unknown, props?: unknown) => void;
 
-export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
-  pluginOnMessageHandler = null;
+export function createUIBridge(callbacks: UIBridgeCallbacks): UIBridge {
+  let pluginOnMessageHandler: UIMessageHandler | null = null;
+  let uiMessageHandlers: Array<{ handler: UIMessageHandler; once: boolean }> = [];
+  let pluginUIOpen = false;
+  const guard: ProxyGuard = { revokedMessage: null };
+  const nodes = createNodeWrapper(callbacks, guard);
+  const events: EventRegistry = eventsService.createEventRegistry({
+    wrapArgs: (args) => args.map((arg) => wrapPayload(arg, nodes.wrap)),
+    logger: callbacks.logger,
+    onActivity: callbacks.onActivity,
+    onChange: callbacks.onListenersChange,
+  });
 
   const uiProxy = new Proxy({} as typeof figma.ui, {
     get(_target, prop) {
+      assertActive(guard, `figma.ui.${String(prop)}`);
+      callbacks.onActivity?.();
+
       if (prop === 'postMessage') {
         return (data: unknown, _opts?: unknown) => {
           const executionId = callbacks.getExecutionId();
@@ -50,13 +403,24 @@ export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
         return pluginOnMessageHandler;
       }
 
+      if (prop === 'on' || prop === 'once') {
+        return (type: string, handler: UIMessageHandler) => {
+          if (type !== 'message') throw new Error(`figma.ui.${prop}: unknown event type '${type}'`);
+          uiMessageHandlers.push({ handler, once: prop === 'once' });
+        };
+      }
+
+      if (prop === 'off') {
+        return (type: string, handler: UIMessageHandler) => {
+          if (type !== 'message') return;
+          uiMessageHandlers = uiMessageHandlers.filter((h) => h.handler !== handler);
+        };
+      }
+
       if (prop === 'resize') {
         return (width: number, height: number) => {
           const executionId = callbacks.getExecutionId();
           if (!executionId) return;
-          if (callbacks.onResizeRunner) {
-            callbacks.onResizeRunner(width, height);
-          }
           callbacks.sendToUI({
             type: 'PLUGIN_UI_RESIZE',
             payload: { executionId, width, height },
@@ -68,10 +432,12 @@ export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
         return () => {
           const executionId = callbacks.getExecutionId();
           if (!executionId) return;
+          pluginUIOpen = false;
           callbacks.sendToUI({
             type: 'PLUGIN_UI_CLOSE',
             payload: { executionId },
           });
+          callbacks.onUIClose?.();
         };
       }
 
@@ -83,6 +449,7 @@ export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
     },
 
     set(_target, prop, value) {
+      assertActive(guard, `figma.ui.${String(prop)}`);
       if (prop === 'onmessage') {
         pluginOnMessageHandler = value;
         return true;
@@ -94,6 +461,9 @@ export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
 
   const figmaProxy = new Proxy({} as typeof figma, {
     get(_target, prop) {
+      assertActive(guard, `figma.${String(prop)}`);
+      callbacks.onActivity?.();
+
       if (prop === 'showUI') {
         return (html: string, opts?: { width?: number; height?: number; visible?: boolean; title?: string }) => {
           const executionId = callbacks.getExecutionId();
@@ -126,10 +496,7 @@ export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
           const visible = opts?.visible !== false;
           const title = opts?.title ?? '';
 
-          if (callbacks.onResizeRunner) {
-            callbacks.onResizeRunner(width, height);
-          }
-
+          pluginUIOpen = true;
           callbacks.sendToUI({
             type: 'PLUGIN_SHOW_UI',
             payload: { executionId, html, width, height, visible, title },
@@ -138,26 +505,59 @@ export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
       }
 
       if (prop === 'closePlugin') {
-        return (_message?: string) => {
+        return (message?: string) => {
           if (callbacks.onClosePlugin) {
-            callbacks.onClosePlugin();
+            callbacks.onClosePlugin(message);
           }
         };
       }
 
+      if (prop === 'notify' && callbacks.notifier) {
+        const notify = callbacks.notifier.notify;
+        return (...args: unknown[]) => nodes.call(null, 'notify', notify, args);
+      }
+
       if (prop === 'ui') {
         return uiProxy;
       }
 
-      const val = (figma as any)[prop];
+      if (prop === 'on' || prop === 'once' || prop === 'off') {
+        return events[prop];
+      }
+
+      if (prop === 'command') {
+        return callbacks.command ?? '';
+      }
+
+      if (prop === 'parameters' && callbacks.parameters) {
+        return callbacks.parameters;
+      }
+
+      if (prop === 'clientStorage' && callbacks.clientStorage) {
+        return nodes.wrapNamespace('clientStorage', callbacks.clientStorage);
+      }
+
+      const val = nodes.read(`figma.${String(prop)}`, prop, () => callbacks.dryRun
+        ? callbacks.dryRun.read(null, String(prop), () => (figma as any)[prop])
+        : (figma as any)[prop]);
       if (typeof val === 'function') {
-        return val.bind(figma);
+        return (...args: unknown[]) => nodes.call(null, String(prop), val, args);
       }
-      return val;
+      if (val && typeof val === 'object' && !Array.isArray(val) && !isDocumentObject(val)) {
+        return nodes.wrapNamespace(String(prop), val);
+      }
+      return nodes.wrap(val);
     },
 
     set(_target, prop, value) {
-      (figma as any)[prop] = value;
+      assertActive(guard, `figma.${String(prop)}`);
+      if (callbacks.dryRun) {
+        callbacks.dryRun.recordSet(null, String(prop), nodes.unwrap(value), false);
+        callbacks.dryRun.write(null, String(prop), nodes.unwrap(value));
+        return true;
+      }
+      callbacks.journal?.recordSet(null, String(prop));
+      nodes.measure('set', `figma.${String(prop)}`, () => { (figma as any)[prop] = nodes.unwrap(value); });
       return true;
     },
 
@@ -166,19 +566,46 @@ export function createFigmaProxy(callbacks: UIBridgeCallbacks): typeof figma {
     },
   });
 
-  return figmaProxy;
-}
+  return {
+    figma: figmaProxy,
 
-export function dispatchToPlugin(data: unknown): void {
-  if (pluginOnMessageHandler) {
-    try {
-      pluginOnMessageHandler(data);
-    } catch (err) {
-      console.error('[ui-bridge] Error in plugin onmessage handler:', err);
-    }
-  }
-}
+    dispatch(data: unknown): void {
+      if (guard.revokedMessage !== null) return;
+      callbacks.onActivity?.();
+      if (pluginOnMessageHandler) {
+        try {
+          pluginOnMessageHandler(data);
+        } catch (err) {
+          callbacks.logger.error('[ui-bridge] Error in plugin onmessage handler:', err);
+        }
+      }
+      const handlers = uiMessageHandlers;
+      uiMessageHandlers = handlers.filter((h) => !h.once);
+      for (const { handler } of handlers) {
+        try {
+          handler(data);
+        } catch (err) {
+          callbacks.logger.error("[ui-bridge] Error in plugin figma.ui.on('message') handler:", err);
+        }
+      }
+    },
 
-export function reset(): void {
-  pluginOnMessageHandler = null;
+    hasActiveHandles(): boolean {
+      return pluginUIOpen || events.hasActiveListeners() || nodes.pending() > 0;
+    },
+
+    closeListeners(): void {
+      events.teardown(true);
+    },
+
+    emit: events.emit,
+
+    reset(revokedMessage = 'Run has ended'): void {
+      if (guard.revokedMessage === null) guard.revokedMessage = revokedMessage;
+      events.teardown(false);
+      pluginOnMessageHandler = null;
+      uiMessageHandlers = [];
+      pluginUIOpen = false;
+    },
+  };
 }
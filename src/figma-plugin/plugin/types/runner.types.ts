@@ -2,6 +2,8 @@
 // Runner domain types
 // ============================================================
 
+import type { RevertResult } from './messages.types';
+
 export type Screen = 'login' | 'projects' | 'execution' | 'settings';
 
 export interface AuthState {
@@ -40,18 +42,84 @@ export interface BundleFile {
 export interface ManifestConfig {
   name: string;
   main: string;
-  ui: string;
+  /** Single UI file, or Figma's map form `{ main: 'a.html', secondary: 'b.html' }`; absent for plugins without UI */
+  ui?: string | Record<string, string>;
   api?: string;
   editorType?: string[];
-  networkAccess?: { allowedDomains?: string[] };
+  /** "dynamic-page": pages load on demand, sync node / style lookups are removed */
+  documentAccess?: string;
+  networkAccess?: NetworkAccessConfig;
+  /** Plugin menu: commands, separators and submenus */
+  menu?: ManifestMenuItem[];
+  /** Parameters of the plugin when it has no menu */
+  parameters?: ManifestParameter[];
+  parameterOnly?: boolean;
+  /** Runner-only options, ignored by Figma */
+  runner?: { idleTimeout?: number };
   [key: string]: unknown;
 }
 
+/** manifest `parameters` entry, filled through figma.parameters.on('input') */
+export interface ManifestParameter {
+  name: string;
+  key: string;
+  description?: string;
+  allowFreeform?: boolean;
+  optional?: boolean;
+}
+
+export type ManifestMenuItem =
+  | { name: string; command: string; parameters?: ManifestParameter[]; parameterOnly?: boolean }
+  | { separator: true }
+  | { name: string; menu: ManifestMenuItem[] };
+
+/** Command the user can run, flattened from manifest.menu (commands.service.ts) */
+export interface PluginCommand {
+  /** figma.command; '' when the manifest has no menu */
+  command: string;
+  /** Menu path, submenus included */
+  label: string;
+  /** null when the command takes no parameters */
+  parameters: ManifestParameter[] | null;
+}
+
+/** manifest `networkAccess`, enforced by network-access.service.ts */
+export interface NetworkAccessConfig {
+  /** Domains reachable once published; ['*'] = all, ['none'] = none */
+  allowedDomains: string[];
+  /** Extra domains only reachable while developing */
+  devAllowedDomains?: string[];
+  /** Why the plugin needs broad access, required by Figma for wildcards */
+  reasoning?: string;
+}
+
 export interface ParsedBundle {
   manifest: ManifestConfig;
+  mainPath: string;
   codeJs: string;
-  uiHtml: string;
+  /** Content of manifest `ui` when it is a single path, exposed as `__html__` */
+  uiHtml: string | null;
+  /** Contents of manifest `ui` when it is a map, exposed as `__uiFiles__` */
+  uiFiles: Record<string, string> | null;
   files: BundleFile[];
+  /** Hash of the bundle content (manifest + files) */
+  version: string;
+}
+
+/** A saved version of a project bundle (list_project_bundle_versions RPC) */
+export interface BundleVersion {
+  id: string;
+  createdAt: string;
+  /** Studio label of the save (AI edit prompt, manual save...), if any */
+  label: string | null;
+}
+
+export interface BundleDiagnostic {
+  path: string;
+  line: number;
+  column: number;
+  message: string;
+  severity: 'error' | 'warning';
 }
 
 export type ExecutionStatus = 'idle' | 'loading' | 'running' | 'stopped' | 'error' | 'done';
@@ -64,14 +132,76 @@ export interface ExecutionState {
   logs: LogEntry[];
 }
 
+/** Where a log comes from; `notify` for figma.notify / closePlugin(message) */
+export type LogSource = 'console' | 'error' | 'unhandled' | 'notify';
+
 export interface LogEntry {
   level: 'info' | 'warn' | 'error';
   message: string;
   timestamp: number;
-  source?: 'console' | 'error' | 'unhandled';
+  source?: LogSource;
   stackTrace?: string;
+  stackFrames?: StackFrame[];
 }
 
+/** Stack frame mapped back to a bundle (or source-mapped) file, 1-based */
+export interface StackFrame {
+  file: string;
+  line: number;
+  column: number;
+  functionName: string | null;
+}
+
+/** Where reads go during a dry run (dry-run.service.ts) */
+export type DryRunReadMode = 'document' | 'snapshot';
+
+/** Reaction of a session to a new version of its project: off, reload, or reload keeping the plugin UI size */
+export type HotReloadMode = 'off' | 'reload' | 'keep-size';
+
+export interface HotReloadState {
+  /** Realtime channel subscribed */
+  connected: boolean;
+  /** A new version is being fetched */
+  reloading: boolean;
+  /** Last reload failure (invalid manifest, network...) */
+  error: string | null;
+  /** Bundle version of the last run, null before the first one */
+  runVersion: string | null;
+}
+
+export const DEFAULT_HOT_RELOAD_STATE: HotReloadState = {
+  connected: false,
+  reloading: false,
+  error: null,
+  runVersion: null,
+};
+
+/** One figma API call or property set recorded by a dry run */
+export interface TraceEntry {
+  seq: number;
+  kind: 'call' | 'set';
+  /** `figma`, `figma.<namespace>` or a node description */
+  target: string;
+  name: string;
+  /** Arguments (or assigned value) formatted for display */
+  args: string;
+  /** False when the call was skipped because it would change the document */
+  applied: boolean;
+  timestamp: number;
+}
+
+export interface RevertState {
+  pending: boolean;
+  result: RevertResult | null;
+  error: string | null;
+}
+
+export const DEFAULT_REVERT_STATE: RevertState = {
+  pending: false,
+  result: null,
+  error: null,
+};
+
 export interface PluginUIState {
   visible: boolean;
   html: string | null;
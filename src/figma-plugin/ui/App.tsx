@@ -2,9 +2,9 @@
 // App.tsx - Root Preact component, screen routing
 // ============================================================
 
-import { h, FunctionalComponent } from 'preact';
+import { h, Fragment, FunctionalComponent } from 'preact';
 import { useState, useEffect, useCallback } from 'preact/hooks';
-import type { Screen, Project } from '../plugin/types/runner.types';
+import type { ExecutionStatus, ParsedBundle, Screen, Project } from '../plugin/types/runner.types';
 import type { PluginMessage, RunnerSettings } from '../plugin/types/messages.types';
 import { DEFAULT_SETTINGS } from '../plugin/types/messages.types';
 import { initSupabase } from './lib/supabase';
@@ -12,45 +12,130 @@ import { usePluginMessages, sendToPlugin } from './hooks/useMessaging';
 import { useAuth } from './hooks/useAuth';
 import { useProjects } from './hooks/useProjects';
 import { useBundle } from './hooks/useBundle';
-import { useExecution } from './hooks/useExecution';
+import { useBundleCache } from './hooks/useBundleCache';
 import { Login } from './components/Login';
 import { ProjectList } from './components/ProjectList';
-import { Execution } from './components/Execution';
+import { ExecutionSession } from './components/ExecutionSession';
+import { ExecutionTabs, TAB_BAR_HEIGHT } from './components/ExecutionTabs';
+
+/** An open execution tab; its run state lives in ExecutionSession */
+interface Session {
+  project: Project;
+  bundle: ParsedBundle;
+  /** Dropped files (Run local plugin): no source to reload from */
+  local?: boolean;
+  /** Run as soon as the session opens (local plugin, cached version) */
+  runOnOpen?: boolean;
+}
 
 const App: FunctionalComponent = () => {
   const [screen, setScreen] = useState<Screen>('login');
   const [settings, setSettings] = useState<RunnerSettings>(DEFAULT_SETTINGS);
   const [supabaseReady, setSupabaseReady] = useState(false);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [sessionStatuses, setSessionStatuses] = useState<Record<string, ExecutionStatus>>({});
 
   const { auth, signIn, signOut, handlePluginMessage, clearError } = useAuth();
   const projectsHook = useProjects(auth.user?.id || null);
   const bundleHook = useBundle();
-  const executionHook = useExecution();
+  const bundleCache = useBundleCache();
 
   const handleSelectProject = useCallback(async (project: Project) => {
-    executionHook.reset();
-    const success = await bundleHook.load(project);
-    if (success) {
+    // A project already open in a tab keeps its session
+    if (sessions.some((s) => s.project.id === project.id)) {
+      setActiveProjectId(project.id);
+      setScreen('execution');
+      return;
+    }
+    const devServerUrl = settings.projectDevServers?.[project.id] ?? null;
+    const bundle = await bundleHook.load(project, devServerUrl);
+    if (bundle) {
+      // Dev server builds are not kept: they change on every save
+      if (!devServerUrl) bundleCache.store(project, bundle);
+      setSessions((prev) => [...prev.filter((s) => s.project.id !== project.id), { project, bundle }]);
+      setActiveProjectId(project.id);
+      setScreen('execution');
+    }
+  }, [bundleHook.load, bundleCache.store, sessions, settings.projectDevServers]);
+
+  const handleRunCached = useCallback(async (project: Project) => {
+    const bundle = await bundleHook.loadFromCache(project, bundleCache.loadCached);
+    if (bundle) {
+      setSessions((prev) => [...prev.filter((s) => s.project.id !== project.id), { project, bundle, runOnOpen: true }]);
+      setActiveProjectId(project.id);
       setScreen('execution');
     }
-  }, [bundleHook.load, executionHook.reset]);
+  }, [bundleHook.loadFromCache, bundleCache.loadCached]);
+
+  const handleRunLocal = useCallback(async (source: DataTransfer | File[]) => {
+    const local = await bundleHook.loadLocal(source);
+    if (local) {
+      const { project, bundle } = local;
+      setSessions((prev) => [...prev.filter((s) => s.project.id !== project.id), { project, bundle, local: true, runOnOpen: true }]);
+      setActiveProjectId(project.id);
+      setScreen('execution');
+    }
+  }, [bundleHook.loadLocal]);
 
   const handleBackToProjects = useCallback(() => {
+    // Runs keep going in their tabs
     sendToPlugin({ type: 'RESTORE_RUNNER_SIZE' });
-    executionHook.reset();
     bundleHook.reset();
     setScreen('projects');
-  }, [bundleHook.reset, executionHook.reset]);
-
-  const handleExecute = useCallback(() => {
-    if (bundleHook.bundle && bundleHook.selectedProject) {
-      executionHook.start(
-        bundleHook.bundle.codeJs,
-        bundleHook.bundle.uiHtml,
-        bundleHook.selectedProject.id,
-      );
+  }, [bundleHook.reset]);
+
+  const handleCloseSession = useCallback((projectId: string) => {
+    const remaining = sessions.filter((s) => s.project.id !== projectId);
+    setSessions(remaining);
+    setSessionStatuses((prev) => {
+      const next = { ...prev };
+      delete next[projectId];
+      return next;
+    });
+    if (activeProjectId === projectId) {
+      const fallback = remaining[remaining.length - 1];
+      setActiveProjectId(fallback ? fallback.project.id : null);
+      if (!fallback) {
+        sendToPlugin({ type: 'RESTORE_RUNNER_SIZE' });
+        setScreen('projects');
+      }
     }
-  }, [bundleHook.bundle, bundleHook.selectedProject, executionHook.start]);
+  }, [sessions, activeProjectId]);
+
+  const handleSessionStatus = useCallback((projectId: string, status: ExecutionStatus) => {
+    setSessionStatuses((prev) => (prev[projectId] === status ? prev : { ...prev, [projectId]: status }));
+  }, []);
+
+  const handleBundleChange = useCallback((projectId: string, bundle: ParsedBundle) => {
+    const session = sessions.find((s) => s.project.id === projectId);
+    if (session && !session.local && !settings.projectDevServers?.[projectId]) {
+      bundleCache.store(session.project, bundle);
+    }
+    setSessions((prev) => prev.map((s) => (s.project.id === projectId ? { ...s, bundle } : s)));
+  }, [sessions, settings.projectDevServers, bundleCache.store]);
+
+  const handleIdleTimeoutChange = useCallback((projectId: string, seconds: number | null) => {
+    const next = { ...settings.projectIdleTimeouts };
+    if (seconds === null) {
+      delete next[projectId];
+    } else {
+      next[projectId] = seconds;
+    }
+    setSettings((prev) => ({ ...prev, projectIdleTimeouts: next }));
+    sendToPlugin({ type: 'STORE_SETTING', payload: { key: 'projectIdleTimeouts', value: next } });
+  }, [settings.projectIdleTimeouts]);
+
+  const handleDevServerChange = useCallback((projectId: string, url: string | null) => {
+    const next = { ...settings.projectDevServers };
+    if (url === null) {
+      delete next[projectId];
+    } else {
+      next[projectId] = url;
+    }
+    setSettings((prev) => ({ ...prev, projectDevServers: next }));
+    sendToPlugin({ type: 'STORE_SETTING', payload: { key: 'projectDevServers', value: next } });
+  }, [settings.projectDevServers]);
 
   useEffect(() => {
     if (settings.supabaseUrl && settings.supabaseAnonKey) {
@@ -67,9 +152,12 @@ const App: FunctionalComponent = () => {
     if (auth.loading) return;
     if (auth.authenticated) {
       setScreen('projects');
+      bundleCache.refresh();
     } else {
       setScreen('login');
       bundleHook.reset();
+      setSessions([]);
+      setActiveProjectId(null);
     }
   }, [auth.authenticated, auth.loading]);
 
@@ -80,7 +168,6 @@ const App: FunctionalComponent = () => {
         setSettings(merged);
         initSupabase(merged.supabaseUrl, merged.supabaseAnonKey);
         setSupabaseReady(true);
-        executionHook.setSupabaseUrl(merged.supabaseUrl);
         sendToPlugin({ type: 'GET_STORED_AUTH' });
         return;
       }
@@ -89,13 +176,12 @@ const App: FunctionalComponent = () => {
         return;
       }
 
-      if (executionHook.handlePluginMessage(msg)) {
-        return;
-      }
+      if (bundleCache.handlePluginMessage(msg)) return;
 
+      // Execution and storage messages are handled by each ExecutionSession
       handlePluginMessage(msg);
     },
-    [handlePluginMessage, executionHook.handlePluginMessage],
+    [handlePluginMessage, bundleCache.handlePluginMessage],
   );
 
   usePluginMessages(onPluginMessage);
@@ -109,75 +195,107 @@ const App: FunctionalComponent = () => {
     );
   }
 
-  if (bundleHook.loading) {
-    return (
-      <div class="loader">
-        <div class="spinner" />
-        <span>Chargement du plugin...</span>
-      </div>
-    );
-  }
-
-  switch (screen) {
-    case 'login':
+  const renderScreen = () => {
+    if (bundleHook.loading) {
       return (
-        <Login
-          loading={auth.loading}
-          error={auth.error}
-          onSignIn={signIn}
-          onClearError={clearError}
-        />
+        <div class="loader">
+          <div class="spinner" />
+          <span>Chargement du plugin...</span>
+        </div>
       );
+    }
 
-    case 'projects':
-      if (!auth.user) return null;
-      return (
-        <ProjectList
-          userId={auth.user.id}
-          userEmail={auth.user.email}
-          projects={projectsHook.projects}
-          loading={projectsHook.loading}
-          error={projectsHook.error}
-          bundleError={bundleHook.error}
-          onFetch={projectsHook.fetch}
-          onClearError={projectsHook.clearError}
-          onClearBundleError={bundleHook.clearError}
-          onSelect={handleSelectProject}
-          onSignOut={signOut}
-        />
-      );
+    switch (screen) {
+      case 'login':
+        return (
+          <Login
+            loading={auth.loading}
+            error={auth.error}
+            onSignIn={signIn}
+            onClearError={clearError}
+          />
+        );
 
-    case 'execution':
-      if (!bundleHook.bundle || !bundleHook.selectedProject) return null;
-      return (
-        <Execution
-          project={bundleHook.selectedProject}
-          bundle={bundleHook.bundle}
-          status={executionHook.status}
-          executionId={executionHook.executionId}
-          logs={executionHook.logs}
-          duration={executionHook.duration}
-          error={executionHook.error}
-          pluginUI={executionHook.pluginUI}
-          pluginIframeRef={executionHook.pluginIframeRef}
-          onExecute={handleExecute}
-          onStop={executionHook.stop}
-          onReset={executionHook.reset}
-          onBack={handleBackToProjects}
-        />
-      );
+      case 'projects':
+        if (!auth.user) return null;
+        return (
+          <ProjectList
+            userId={auth.user.id}
+            userEmail={auth.user.email}
+            projects={projectsHook.projects}
+            loading={projectsHook.loading}
+            error={projectsHook.error}
+            bundleError={bundleHook.error}
+            failedProject={bundleHook.failedProject}
+            cache={bundleCache.entries}
+            onRunCached={handleRunCached}
+            onFetch={projectsHook.fetch}
+            onClearError={projectsHook.clearError}
+            onClearBundleError={bundleHook.clearError}
+            onSelect={handleSelectProject}
+            onRunLocal={handleRunLocal}
+            onSignOut={signOut}
+          />
+        );
 
-    case 'settings':
-      return (
-        <div class="screen">
-          <div class="screen-title">Settings</div>
-          <div style={{ color: 'var(--color-text-muted)' }}>Coming soon (US-RUN-12)</div>
-        </div>
-      );
+      case 'execution':
+        // Rendered below with the other sessions
+        return null;
 
-    default:
-      return null;
-  }
+      case 'settings':
+        return (
+          <div class="screen">
+            <div class="screen-title">Settings</div>
+            <div style={{ color: 'var(--color-text-muted)' }}>Coming soon (US-RUN-12)</div>
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  // Sessions stay mounted on every screen so their plugins keep running
+  const sessionsVisible = screen === 'execution' && !bundleHook.loading;
+  const showTabs = sessions.length > 1;
+
+  return (
+    <Fragment>
+      {renderScreen()}
+      {sessions.length > 0 && (
+        <div class="exec-sessions" style={{ display: sessionsVisible ? 'flex' : 'none' }}>
+          {showTabs && (
+            <ExecutionTabs
+              projects={sessions.map((s) => s.project)}
+              activeProjectId={activeProjectId}
+              statuses={sessionStatuses}
+              onSelect={setActiveProjectId}
+              onClose={handleCloseSession}
+            />
+          )}
+          {sessions.map(({ project, bundle, local, runOnOpen }) => (
+            <ExecutionSession
+              key={project.id}
+              project={project}
+              bundle={bundle}
+              local={!!local}
+              runOnOpen={!!runOnOpen}
+              active={sessionsVisible && project.id === activeProjectId}
+              tabBarHeight={showTabs ? TAB_BAR_HEIGHT : 0}
+              supabaseUrl={settings.supabaseUrl}
+              idleTimeout={settings.projectIdleTimeouts?.[project.id] ?? null}
+              onIdleTimeoutChange={handleIdleTimeoutChange}
+              devServerUrl={settings.projectDevServers?.[project.id] ?? null}
+              onDevServerChange={handleDevServerChange}
+              onStatusChange={handleSessionStatus}
+              onBundleChange={handleBundleChange}
+              onBack={handleBackToProjects}
+            />
+          ))}
+        </div>
+      )}
+    </Fragment>
+  );
 };
 
 export default App;
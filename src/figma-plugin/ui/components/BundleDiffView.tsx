@@ -0,0 +1,53 @@
+// ============================================================
+// BundleDiffView.tsx - Changed files between two bundle versions
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState } from 'preact/hooks';
+import type { FileDiff, FileDiffStatus } from '../lib/bundle-diff';
+
+interface Props {
+  diffs: FileDiff[];
+}
+
+const STATUS_LABELS: Record<FileDiffStatus, string> = { added: 'A', removed: 'S', modified: 'M' };
+const STATUS_TITLES: Record<FileDiffStatus, string> = { added: 'Ajoute', removed: 'Supprime', modified: 'Modifie' };
+const LINE_PREFIX = { context: ' ', added: '+', removed: '-' };
+
+export const BundleDiffView: FunctionalComponent<Props> = ({ diffs }) => {
+  const [openPath, setOpenPath] = useState<string | null>(null);
+
+  if (diffs.length === 0) return <div class="storage-empty">Aucune difference avec la derniere version.</div>;
+
+  return (
+    <div class="diff-view">
+      {diffs.map((diff) => (
+        <div key={diff.path}>
+          <button class="diff-file" onClick={() => setOpenPath(openPath === diff.path ? null : diff.path)}>
+            <span class={`diff-status diff-status-${diff.status}`} title={STATUS_TITLES[diff.status]}>{STATUS_LABELS[diff.status]}</span>
+            <span class="diff-path" title={diff.path}>{diff.path}</span>
+            <span class="diff-count diff-count-added">+{diff.added}</span>
+            <span class="diff-count diff-count-removed">-{diff.removed}</span>
+          </button>
+          {openPath === diff.path && (
+            <pre class="source-viewer-code diff-code">
+              {diff.hunks.length === 0 && <div class="source-viewer-empty">Fins de ligne modifiees uniquement.</div>}
+              {diff.hunks.map((hunk) => (
+                <div key={`${hunk.oldStart}:${hunk.newStart}`}>
+                  <div class="diff-hunk-header">@@ -{hunk.oldStart} +{hunk.newStart} @@</div>
+                  {hunk.lines.map((line, i) => (
+                    <div key={i} class={`source-line diff-line-${line.type}`}>
+                      <span class="source-line-number">{line.oldLine ?? ''}</span>
+                      <span class="source-line-number">{line.newLine ?? ''}</span>
+                      <span class="source-line-text">{LINE_PREFIX[line.type]} {line.text}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
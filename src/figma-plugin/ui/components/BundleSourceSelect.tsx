@@ -0,0 +1,60 @@
+// ============================================================
+// BundleSourceSelect.tsx - Supabase or local dev server bundle
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+import { DEFAULT_DEV_SERVER_URL, validateDevServerUrl } from '../lib/bundle-loader';
+
+interface Props {
+  /** Local dev server URL, null = Supabase */
+  url: string | null;
+  refreshing: boolean;
+  onChange: (url: string | null) => void;
+  onRefresh: () => void;
+}
+
+export const BundleSourceSelect: FunctionalComponent<Props> = ({ url, refreshing, onChange, onRefresh }) => {
+  const [draft, setDraft] = useState(url ?? '');
+  const [invalid, setInvalid] = useState<string | null>(null);
+
+  useEffect(() => { setDraft(url ?? ''); setInvalid(null); }, [url]);
+
+  const commit = () => {
+    const next = draft.trim();
+    if (next === url) return;
+    const error = validateDevServerUrl(next);
+    setInvalid(error);
+    if (!error) onChange(next);
+  };
+
+  return (
+    <div>
+      <label class="idle-timeout" title="Bundle charge depuis Supabase ou depuis un serveur local servant { manifest, files }">
+        <span>Source</span>
+        <select
+          class="idle-timeout-select"
+          value={url === null ? '' : 'local'}
+          onChange={(e) => onChange((e.target as HTMLSelectElement).value === '' ? null : DEFAULT_DEV_SERVER_URL)}
+        >
+          <option value="">Supabase</option>
+          <option value="local">Serveur local</option>
+        </select>
+        <button class="btn btn-ghost" onClick={onRefresh} disabled={refreshing} title="Recharger le bundle">&#x21bb;</button>
+      </label>
+      {url !== null && (
+        <label class="idle-timeout" title={invalid ?? 'URL du bundle sur le serveur local (Entree pour valider)'}>
+          <input
+            class="idle-timeout-select dev-server-url"
+            value={draft}
+            placeholder={DEFAULT_DEV_SERVER_URL}
+            onInput={(e) => setDraft((e.target as HTMLInputElement).value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+          />
+        </label>
+      )}
+      {invalid && <div class="idle-timeout dev-server-error">{invalid}</div>}
+    </div>
+  );
+};
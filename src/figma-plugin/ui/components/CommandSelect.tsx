@@ -0,0 +1,33 @@
+// ============================================================
+// CommandSelect.tsx - Manifest menu command to run (figma.command)
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { PluginCommand } from '../../plugin/types/runner.types';
+
+interface Props {
+  commands: PluginCommand[];
+  value: string;
+  disabled?: boolean;
+  onChange: (command: string) => void;
+}
+
+export const CommandSelect: FunctionalComponent<Props> = ({ commands, value, disabled, onChange }) => {
+  // A plugin without menu has a single unnamed command: nothing to pick
+  if (commands.length < 2) return null;
+  return (
+    <label class="idle-timeout" title="Commande du menu du plugin (figma.command)">
+      <span>Commande</span>
+      <select
+        class="idle-timeout-select"
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange((e.target as HTMLSelectElement).value)}
+      >
+        {commands.map((c) => (
+          <option key={c.command} value={c.command}>{c.parameters ? `${c.label}...` : c.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
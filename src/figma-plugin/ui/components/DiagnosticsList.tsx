@@ -0,0 +1,25 @@
+// ============================================================
+// DiagnosticsList.tsx - file:line diagnostics for a bundle
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { BundleDiagnostic } from '../../plugin/types/runner.types';
+
+interface Props {
+  diagnostics: BundleDiagnostic[];
+}
+
+export const DiagnosticsList: FunctionalComponent<Props> = ({ diagnostics }) => {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <div class="diagnostics">
+      {diagnostics.map((d, i) => (
+        <div key={i} class={`diagnostic diagnostic-${d.severity}`}>
+          <span class="diagnostic-location">{d.path}:{d.line}:{d.column}</span>
+          <span class="diagnostic-message">{d.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
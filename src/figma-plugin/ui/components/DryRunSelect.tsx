@@ -0,0 +1,38 @@
+// ============================================================
+// DryRunSelect.tsx - Normal run or dry run (and its read mode)
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { DryRunReadMode } from '../../plugin/types/runner.types';
+
+interface Props {
+  /** null = normal run */
+  value: DryRunReadMode | null;
+  disabled?: boolean;
+  onChange: (mode: DryRunReadMode | null) => void;
+}
+
+const OPTIONS: Array<{ mode: DryRunReadMode; label: string; title: string }> = [
+  { mode: 'document', label: 'Simulation (document)', title: 'Lectures sur le document reel' },
+  { mode: 'snapshot', label: 'Simulation (snapshot)', title: 'Lectures figees au premier acces, avec les ecritures du run' },
+];
+
+export const DryRunSelect: FunctionalComponent<Props> = ({ value, disabled, onChange }) => (
+  <label class="idle-timeout" title="Une simulation enregistre les appels a l'API figma sans modifier le document">
+    <span>Mode</span>
+    <select
+      class="idle-timeout-select"
+      value={value ?? ''}
+      disabled={disabled}
+      onChange={(e) => {
+        const raw = (e.target as HTMLSelectElement).value;
+        onChange(raw === '' ? null : raw as DryRunReadMode);
+      }}
+    >
+      <option value="">Normal</option>
+      {OPTIONS.map((o) => (
+        <option key={o.mode} value={o.mode} title={o.title}>{o.label}</option>
+      ))}
+    </select>
+  </label>
+);
@@ -0,0 +1,38 @@
+// ============================================================
+// DryRunTrace.tsx - Ordered figma API call trace of a dry run
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { TraceEntry } from '../../plugin/types/runner.types';
+
+interface Props {
+  entries: TraceEntry[];
+  dropped: number;
+}
+
+export const DryRunTrace: FunctionalComponent<Props> = ({ entries, dropped }) => {
+  const skipped = entries.filter((e) => !e.applied).length;
+
+  return (
+    <div class="dry-run-trace">
+      <div class="exec-logs-header">
+        <span>Trace des appels</span>
+        <span class="exec-logs-count" title="Appels non executes (ils auraient modifie le document)">{skipped} simule{skipped > 1 ? 's' : ''} / {entries.length + dropped}</span>
+      </div>
+      <div class="dry-run-trace-list">
+        {entries.length === 0 && <div class="exec-logs-empty">Aucun appel a l'API figma.</div>}
+        {entries.map((e) => (
+          <div key={e.seq} class={`dry-run-entry ${e.applied ? '' : 'dry-run-entry-skipped'}`}>
+            <span class="dry-run-seq">{e.seq}</span>
+            <span class="dry-run-call">
+              <span class="dry-run-target">{e.target}</span>
+              {e.kind === 'call' ? `.${e.name}(${e.args})` : `.${e.name} = ${e.args}`}
+            </span>
+            {!e.applied && <span class="dry-run-badge">SIM</span>}
+          </div>
+        ))}
+        {dropped > 0 && <div class="exec-logs-empty">{dropped} appel{dropped > 1 ? 's' : ''} de plus non affiche{dropped > 1 ? 's' : ''}</div>}
+      </div>
+    </div>
+  );
+};
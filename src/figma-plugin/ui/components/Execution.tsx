@@ -3,11 +3,27 @@
 // ============================================================
 
 import { h, FunctionalComponent } from 'preact';
-import type { Ref } from 'preact';
+import type { RefObject } from 'preact';
 import { useState, useEffect, useRef, useCallback } from 'preact/hooks';
-import type { ExecutionStatus, LogEntry, ParsedBundle, Project, PluginUIState } from '../../plugin/types/runner.types';
+import type { BundleDiagnostic, BundleVersion, DryRunReadMode, ExecutionStatus, HotReloadMode, HotReloadState, LogEntry, ManifestParameter, ParsedBundle, PluginCommand, Project, PluginUIState, RevertState, StackFrame, TraceEntry } from '../../plugin/types/runner.types';
+import type { ApiProfile, JournalSummary, ListenerInfo, StorageEntry } from '../../plugin/types/messages.types';
 import { sendToPlugin } from '../hooks/useMessaging';
 import { ErrorBanner } from './ErrorBanner';
+import { DiagnosticsList } from './DiagnosticsList';
+import { StackTrace } from './StackTrace';
+import { SourceViewer } from './SourceViewer';
+import { IdleTimeoutSelect } from './IdleTimeoutSelect';
+import { RevertPanel } from './RevertPanel';
+import { DryRunSelect } from './DryRunSelect';
+import { DryRunTrace } from './DryRunTrace';
+import { StoragePanel } from './StoragePanel';
+import { ProfilePanel } from './ProfilePanel';
+import { CommandSelect } from './CommandSelect';
+import { HotReloadSelect } from './HotReloadSelect';
+import { BundleSourceSelect } from './BundleSourceSelect';
+import { VersionsPanel } from './VersionsPanel';
+import { ParameterInput } from './ParameterInput';
+import type { ParameterSuggestions } from '../hooks/useExecution';
 
 interface Props {
   project: Project;
@@ -16,20 +32,77 @@ interface Props {
   executionId: string | null;
   logs: LogEntry[];
   duration: number | null;
+  scriptDuration: number | null;
   error: string | null;
+  diagnostics: BundleDiagnostic[];
+  /** Static analysis of the bundle to run; its errors disable Run */
+  preflight: BundleDiagnostic[];
   pluginUI: PluginUIState;
-  pluginIframeRef: Ref<HTMLIFrameElement>;
+  pluginIframeRef: RefObject<HTMLIFrameElement>;
+  journal: JournalSummary | null;
+  profile: ApiProfile | null;
+  revertState: RevertState;
+  onRevert: () => void;
+  listeners: ListenerInfo[];
+  pendingTimers: number;
+  /** Project clientStorage keys, null until first inspected */
+  storageEntries: StorageEntry[] | null;
+  storageLoading: boolean;
+  onStorageRefresh: () => void;
+  onStorageClear: (key?: string) => void;
+  idleTimeout: number | null;
+  manifestIdleTimeout: number | null;
+  onIdleTimeoutChange: (seconds: number | null) => void;
+  /** Mode selected for the next run */
+  dryRunMode: DryRunReadMode | null;
+  onDryRunModeChange: (mode: DryRunReadMode | null) => void;
+  /** Mode of the current / last run */
+  runDryRun: DryRunReadMode | null;
+  trace: TraceEntry[];
+  traceDropped: number;
+  /** Manifest menu commands, and the one picked for the next run */
+  commands: PluginCommand[];
+  command: string;
+  onCommandChange: (command: string) => void;
+  /** Parameters the plugin waits for before its `run` event */
+  parameterRequest: ManifestParameter[] | null;
+  parameterSuggestions: ParameterSuggestions | null;
+  onParameterQuery: (key: string, query: string, values: Record<string, unknown>) => void;
+  onParametersSubmit: (values: Record<string, unknown>) => void;
+  /** Dropped files: no bundle source nor hot reload */
+  local: boolean;
+  /** Local dev server the bundle comes from, null = Supabase */
+  devServerUrl: string | null;
+  onDevServerChange: (url: string | null) => void;
+  onBundleRefresh: () => void;
+  /** Saved versions of the project, null until first listed */
+  versions: BundleVersion[] | null;
+  versionsLoading: boolean;
+  versionsError: string | null;
+  /** False: the backend has no version RPCs, the panel is hidden */
+  versionsAvailable: boolean;
+  /** Latest bundle; `bundle` is the pinned version when one is run instead */
+  latestBundle: ParsedBundle;
+  pinnedVersionId: string | null;
+  onVersionsRefresh: () => void;
+  onVersionLoad: (versionId: string) => Promise<ParsedBundle>;
+  onRunVersion: (versionId: string) => void;
+  onRunLatest: () => void;
+  hotReloadMode: HotReloadMode;
+  onHotReloadModeChange: (mode: HotReloadMode) => void;
+  hotReload: HotReloadState;
+  onDismissReloadError: () => void;
   onExecute: () => void;
   onStop: () => void;
   onReset: () => void;
   onBack: () => void;
 }
 
-const STATUS_LABELS: Record<ExecutionStatus, string> = {
+export const STATUS_LABELS: Record<ExecutionStatus, string> = {
   idle: 'Pret', loading: 'Demarrage...', running: 'En cours',
   stopped: 'Arrete', error: 'Erreur', done: 'Termine',
 };
-const STATUS_COLORS: Record<ExecutionStatus, string> = {
+export const STATUS_COLORS: Record<ExecutionStatus, string> = {
   idle: 'var(--color-text-muted)', loading: 'var(--color-warning)',
   running: 'var(--color-success)', stopped: 'var(--color-warning)',
   error: 'var(--color-error)', done: 'var(--color-success)',
@@ -45,7 +118,7 @@ function formatTimestamp(ts: number): string {
 
 const LOG_LEVEL_COLORS: Record<string, string> = { info: 'var(--color-text)', warn: 'var(--color-warning)', error: 'var(--color-error)' };
 const LOG_LEVEL_LABELS: Record<string, string> = { info: 'LOG', warn: 'WRN', error: 'ERR' };
-const SOURCE_LABELS: Record<string, string> = { console: '', error: 'ERR', unhandled: 'UNC' };
+const SOURCE_LABELS: Record<string, string> = { console: '', error: 'ERR', unhandled: 'UNC', notify: 'NTF' };
 
 const TerminalIcon = () => (<svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="4 17 10 11 4 5" /><line x1="12" y1="19" x2="20" y2="19" /></svg>);
 const ArrowLeftIcon = () => (<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="19" y1="12" x2="5" y2="12" /><polyline points="12 19 5 12 12 5" /></svg>);
@@ -54,12 +127,14 @@ const StopIcon = () => (<svg width="14" height="14" viewBox="0 0 24 24" fill="no
 const XIcon = () => (<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="18" y1="6" x2="6" y2="18" /><line x1="6" y1="6" x2="18" y2="18" /></svg>);
 const PlayIcon = () => (<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polygon points="5 3 19 12 5 21 5 3" /></svg>);
 
-export const Execution: FunctionalComponent<Props> = ({ project, bundle, status, executionId, logs, duration, error, pluginUI, pluginIframeRef, onExecute, onStop, onReset, onBack }) => {
+export const Execution: FunctionalComponent<Props> = ({ project, bundle, status, executionId, logs, duration, scriptDuration, error, diagnostics, preflight, pluginUI, pluginIframeRef, journal, profile, revertState, onRevert, listeners, pendingTimers, storageEntries, storageLoading, onStorageRefresh, onStorageClear, idleTimeout, manifestIdleTimeout, onIdleTimeoutChange, dryRunMode, onDryRunModeChange, runDryRun, trace, traceDropped, commands, command, onCommandChange, parameterRequest, parameterSuggestions, onParameterQuery, onParametersSubmit, local, devServerUrl, onDevServerChange, onBundleRefresh, versions, versionsLoading, versionsError, versionsAvailable, latestBundle, pinnedVersionId, onVersionsRefresh, onVersionLoad, onRunVersion, onRunLatest, hotReloadMode, onHotReloadModeChange, hotReload, onDismissReloadError, onExecute, onStop, onReset, onBack }) => {
   const logsEndRef = useRef<HTMLDivElement>(null);
   const [overlayOpen, setOverlayOpen] = useState(false);
+  const [openFrame, setOpenFrame] = useState<StackFrame | null>(null);
   const hasPluginUI = pluginUI.html !== null && pluginUI.visible;
   const isRunning = status === 'running' || status === 'loading';
   const canExecute = status === 'idle' || status === 'done' || status === 'error' || status === 'stopped';
+  const blocked = preflight.some((d) => d.severity === 'error');
 
   useEffect(() => { if (overlayOpen) logsEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [logs.length, overlayOpen]);
 
@@ -76,16 +151,27 @@ export const Execution: FunctionalComponent<Props> = ({ project, bundle, status,
   }, [hasPluginUI, executionId, pluginIframeRef]);
 
   useEffect(() => { if (status === 'idle') setOverlayOpen(false); }, [status]);
+  // The run may have written to clientStorage: refresh the inspected keys
+  useEffect(() => { if (!isRunning && storageEntries) onStorageRefresh(); }, [isRunning]);
   const handleReload = useCallback(() => { setOverlayOpen(false); onExecute(); }, [onExecute]);
   const handleBack = useCallback(() => { setOverlayOpen(false); onBack(); }, [onBack]);
 
-  const renderLogs = () => (<div class="exec-overlay-logs">{logs.length === 0 ? (<div class="exec-logs-empty">Aucun log.</div>) : (logs.map((log, i) => (<div key={i} class="exec-log-entry" style={{ color: LOG_LEVEL_COLORS[log.level] }}><span class="exec-log-time">{formatTimestamp(log.timestamp)}</span><span class="exec-log-level">{LOG_LEVEL_LABELS[log.level]}</span>{log.source && log.source !== 'console' && (<span class="exec-log-source">{SOURCE_LABELS[log.source]}</span>)}<span class="exec-log-msg">{log.message}{log.stackTrace && <div class="exec-log-stack">{log.stackTrace}</div>}</span></div>)))}<div ref={logsEndRef} /></div>);
+  const renderSource = () => (openFrame && <SourceViewer frame={openFrame} files={bundle.files} onClose={() => setOpenFrame(null)} />);
 
-  const renderOverlay = () => (<div class="exec-overlay-backdrop" onClick={() => setOverlayOpen(false)}><div class="exec-overlay-panel" onClick={(e: Event) => e.stopPropagation()}><div class="exec-overlay-header"><div class="exec-overlay-title"><span class="exec-overlay-project">{project.name}</span><div class="exec-overlay-status"><span class="exec-status-dot" style={{ background: STATUS_COLORS[status], boxShadow: isRunning ? `0 0 6px ${STATUS_COLORS[status]}` : 'none' }} /><span style={{ color: STATUS_COLORS[status] }}>{STATUS_LABELS[status]}</span>{duration !== null && duration >= 0 && <span class="exec-overlay-duration">{formatDuration(duration)}</span>}</div></div><button class="exec-overlay-close" onClick={() => setOverlayOpen(false)} title="Fermer"><XIcon /></button></div>{error && <div style={{ padding: '0 var(--space-md)' }}><ErrorBanner message={error} onDismiss={onReset} /></div>}<div class="exec-overlay-console-header"><span>Console</span><span class="exec-overlay-log-count">{logs.length}</span></div>{renderLogs()}<div class="exec-overlay-actions"><button class="exec-overlay-btn exec-overlay-btn-back" onClick={handleBack} disabled={isRunning} title="Retour projets"><ArrowLeftIcon /><span>Projets</span></button>{canExecute && <button class="exec-overlay-btn exec-overlay-btn-reload" onClick={handleReload} title="Recharger le plugin"><RefreshIcon /><span>Recharger</span></button>}{isRunning && <button class="exec-overlay-btn exec-overlay-btn-stop" onClick={onStop} title="Arreter"><StopIcon /><span>Arreter</span></button>}</div></div></div>);
+  // Version of the running bundle; hot reload may have loaded a newer one not run yet
+  const renderVersion = () => {
+    const runVersion = hotReload.runVersion ?? bundle.version;
+    const pending = runVersion !== bundle.version;
+    return (<span class="exec-session" title={pending ? `Version executee ${runVersion}, version chargee ${bundle.version}` : `Version du bundle ${runVersion}`}>v{runVersion.slice(0, 7)}{pending && ` → v${bundle.version.slice(0, 7)}`}{pinnedVersionId && ' · ancienne version'}{devServerUrl && ' · local'}{local && ' · fichiers locaux'}{hotReload.reloading && ' · rechargement...'}</span>);
+  };
+
+  const renderLogs = () => (<div class="exec-overlay-logs">{logs.length === 0 ? (<div class="exec-logs-empty">Aucun log.</div>) : (logs.map((log, i) => (<div key={i} class="exec-log-entry" style={{ color: LOG_LEVEL_COLORS[log.level] }}><span class="exec-log-time">{formatTimestamp(log.timestamp)}</span><span class="exec-log-level">{LOG_LEVEL_LABELS[log.level]}</span>{log.source && log.source !== 'console' && (<span class="exec-log-source">{SOURCE_LABELS[log.source]}</span>)}<span class="exec-log-msg">{log.message}<StackTrace stackTrace={log.stackTrace} frames={log.stackFrames} onOpenFrame={setOpenFrame} /></span></div>)))}<div ref={logsEndRef} /></div>);
+
+  const renderOverlay = () => (<div class="exec-overlay-backdrop" onClick={() => setOverlayOpen(false)}><div class="exec-overlay-panel" onClick={(e: Event) => e.stopPropagation()}><div class="exec-overlay-header"><div class="exec-overlay-title"><span class="exec-overlay-project">{project.name}</span><div class="exec-overlay-status"><span class="exec-status-dot" style={{ background: STATUS_COLORS[status], boxShadow: isRunning ? `0 0 6px ${STATUS_COLORS[status]}` : 'none' }} /><span style={{ color: STATUS_COLORS[status] }}>{STATUS_LABELS[status]}</span>{duration !== null && duration >= 0 && <span class="exec-overlay-duration">{formatDuration(duration)}</span>}{renderVersion()}</div></div><button class="exec-overlay-close" onClick={() => setOverlayOpen(false)} title="Fermer"><XIcon /></button></div>{error && <div style={{ padding: '0 var(--space-md)' }}><ErrorBanner message={error} onDismiss={onReset} /></div>}<div class="exec-overlay-console-header"><span>Console</span><span class="exec-overlay-log-count">{logs.length}</span></div>{renderSource()}{renderLogs()}<div class="exec-overlay-actions"><button class="exec-overlay-btn exec-overlay-btn-back" onClick={handleBack} title="Retour projets"><ArrowLeftIcon /><span>Projets</span></button>{canExecute && <button class="exec-overlay-btn exec-overlay-btn-reload" onClick={handleReload} disabled={blocked} title={blocked ? 'Le bundle contient des erreurs' : 'Recharger le plugin'}><RefreshIcon /><span>Recharger</span></button>}{isRunning && <button class="exec-overlay-btn exec-overlay-btn-stop" onClick={onStop} title="Arreter"><StopIcon /><span>Arreter</span></button>}</div></div></div>);
 
   if (hasPluginUI) {
     return (<div class="exec-fullscreen"><div class="exec-iframe-wrapper"><iframe ref={pluginIframeRef} class="exec-plugin-iframe" srcDoc={pluginUI.html!} sandbox="allow-scripts allow-forms" style={{ width: `${pluginUI.width}px`, height: `${pluginUI.height}px` }} title={pluginUI.title || 'Plugin UI'} /></div><button class={`exec-fab ${overlayOpen ? 'exec-fab-active' : ''}`} onClick={() => setOverlayOpen(!overlayOpen)} title="Console & controles"><TerminalIcon />{logs.length > 0 && !overlayOpen && <span class="exec-fab-badge">{logs.length > 99 ? '99+' : logs.length}</span>}</button>{overlayOpen && renderOverlay()}</div>);
   }
 
-  return (<div class="screen" style={{ gap: 0, padding: 0 }}><div style={{ padding: 'var(--space-lg)' }}><div class="exec-top-row" style={{ marginBottom: 'var(--space-md)' }}><button class="btn btn-ghost" onClick={onBack} disabled={isRunning}>&larr;</button><div style={{ flex: 1, minWidth: 0 }}><div class="screen-title" style={{ fontSize: 'var(--font-size-lg)', marginBottom: 0 }}>{project.name}</div><div class="screen-subtitle">{bundle.files.length} fichier{bundle.files.length > 1 ? 's' : ''} &middot; {bundle.manifest.name}</div></div></div><div class="exec-status-bar"><div class="exec-status-indicator"><span class="exec-status-dot" style={{ background: STATUS_COLORS[status], boxShadow: isRunning ? `0 0 6px ${STATUS_COLORS[status]}` : 'none' }} /><span style={{ color: STATUS_COLORS[status], fontWeight: 500 }}>{STATUS_LABELS[status]}</span></div>{duration !== null && duration >= 0 && <span class="exec-duration">{formatDuration(duration)}</span>}{executionId && <span class="exec-id" title={executionId}>{executionId.slice(0, 8)}</span>}</div>{error && <ErrorBanner message={error} onDismiss={onReset} />}<div class="exec-actions">{canExecute && <button class="btn btn-primary btn-full" onClick={onExecute}><PlayIcon />{status === 'idle' ? 'Executer' : 'Re-executer'}</button>}{isRunning && <button class="btn btn-danger btn-full" onClick={onStop}><StopIcon />Arreter</button>}</div></div><div class="exec-console-panel"><div class="exec-logs-header"><span>Console</span><span class="exec-logs-count">{logs.length}</span></div><div class="exec-logs">{logs.length === 0 && !isRunning && <div class="exec-logs-empty">Aucun log. Lancez l'execution pour voir la sortie console.</div>}{logs.map((log, i) => (<div key={i} class="exec-log-entry" style={{ color: LOG_LEVEL_COLORS[log.level] }}><span class="exec-log-time">{formatTimestamp(log.timestamp)}</span><span class="exec-log-level">{LOG_LEVEL_LABELS[log.level]}</span>{log.source && log.source !== 'console' && <span class="exec-log-source">{SOURCE_LABELS[log.source]}</span>}<span class="exec-log-msg">{log.message}{log.stackTrace && <div class="exec-log-stack">{log.stackTrace}</div>}</span></div>))}<div ref={logsEndRef} /></div></div></div>);
+  return (<div class="screen" style={{ gap: 0, padding: 0 }}><div style={{ padding: 'var(--space-lg)' }}><div class="exec-top-row" style={{ marginBottom: 'var(--space-md)' }}><button class="btn btn-ghost" onClick={onBack} title="Retour projets (les executions continuent)">&larr;</button><div style={{ flex: 1, minWidth: 0 }}><div class="screen-title" style={{ fontSize: 'var(--font-size-lg)', marginBottom: 0 }}>{project.name}</div><div class="screen-subtitle">{bundle.files.length} fichier{bundle.files.length > 1 ? 's' : ''} &middot; {bundle.manifest.name}</div></div></div><div class="exec-status-bar"><div class="exec-status-indicator"><span class="exec-status-dot" style={{ background: STATUS_COLORS[status], boxShadow: isRunning ? `0 0 6px ${STATUS_COLORS[status]}` : 'none' }} /><span style={{ color: STATUS_COLORS[status], fontWeight: 500 }}>{STATUS_LABELS[status]}</span></div>{duration !== null && duration >= 0 && <span class="exec-duration">{formatDuration(duration)}</span>}{status === 'running' && scriptDuration !== null && <span class="exec-session" title="Le script est termine, l'UI du plugin, ses listeners figma.on ou ses timers gardent la session ouverte">Script {formatDuration(scriptDuration)} &middot; session active</span>}{pendingTimers > 0 && <span class="exec-session" title="setTimeout / setInterval / requestAnimationFrame en attente, annules a l'arret">{pendingTimers} timer{pendingTimers > 1 ? 's' : ''}</span>}{listeners.length > 0 && <span class="exec-session" title="Listeners figma.on() enregistres par le plugin">{listeners.map((l) => (l.count > 1 ? `${l.event} ×${l.count}` : l.event)).join(', ')}</span>}{runDryRun && <span class="exec-session" title="Les appels qui modifieraient le document sont enregistres, pas executes">Simulation</span>}{renderVersion()}{executionId && <span class="exec-id" title={executionId}>{executionId.slice(0, 8)}</span>}</div>{error && <ErrorBanner message={error} onDismiss={onReset} />}{hotReload.error && <ErrorBanner message={hotReload.error} onDismiss={onDismissReloadError} />}<DiagnosticsList diagnostics={diagnostics} /><DiagnosticsList diagnostics={preflight} />{parameterRequest && <ParameterInput parameters={parameterRequest} suggestions={parameterSuggestions} onQuery={onParameterQuery} onSubmit={onParametersSubmit} onCancel={onStop} />}{!local && <BundleSourceSelect url={devServerUrl} refreshing={hotReload.reloading} onChange={onDevServerChange} onRefresh={onBundleRefresh} />}<CommandSelect commands={commands} value={command} disabled={isRunning} onChange={onCommandChange} /><DryRunSelect value={dryRunMode} disabled={isRunning} onChange={onDryRunModeChange} /><IdleTimeoutSelect value={idleTimeout} manifestValue={manifestIdleTimeout} disabled={isRunning} onChange={onIdleTimeoutChange} />{!local && <HotReloadSelect value={hotReloadMode} connected={hotReload.connected} onChange={onHotReloadModeChange} />}<div class="exec-actions">{canExecute && <button class="btn btn-primary btn-full" onClick={onExecute} disabled={blocked} title={blocked ? 'Corrigez les erreurs signalees avant d\'executer' : undefined}><PlayIcon />{dryRunMode ? 'Simuler' : status === 'idle' ? 'Executer' : 'Re-executer'}</button>}{isRunning && <button class="btn btn-danger btn-full" onClick={onStop}><StopIcon />Arreter</button>}</div>{!isRunning && journal && <RevertPanel journal={journal} revert={revertState} onRevert={onRevert} />}{!isRunning && profile && <ProfilePanel profile={profile} />}{!local && !devServerUrl && versionsAvailable && <VersionsPanel versions={versions} loading={versionsLoading} error={versionsError} latest={latestBundle} pinnedId={pinnedVersionId} disabled={isRunning} onRefresh={onVersionsRefresh} onLoad={onVersionLoad} onRun={onRunVersion} onRunLatest={onRunLatest} />}<StoragePanel entries={storageEntries} loading={storageLoading} disabled={isRunning} onRefresh={onStorageRefresh} onClear={onStorageClear} /></div>{runDryRun && <DryRunTrace entries={trace} dropped={traceDropped} />}<div class="exec-console-panel"><div class="exec-logs-header"><span>Console</span><span class="exec-logs-count">{logs.length}</span></div>{renderSource()}<div class="exec-logs">{logs.length === 0 && !isRunning && <div class="exec-logs-empty">Aucun log. Lancez l'execution pour voir la sortie console.</div>}{logs.map((log, i) => (<div key={i} class="exec-log-entry" style={{ color: LOG_LEVEL_COLORS[log.level] }}><span class="exec-log-time">{formatTimestamp(log.timestamp)}</span><span class="exec-log-level">{LOG_LEVEL_LABELS[log.level]}</span>{log.source && log.source !== 'console' && <span class="exec-log-source">{SOURCE_LABELS[log.source]}</span>}<span class="exec-log-msg">{log.message}<StackTrace stackTrace={log.stackTrace} frames={log.stackFrames} onOpenFrame={setOpenFrame} /></span></div>))}<div ref={logsEndRef} /></div></div></div>);
 };
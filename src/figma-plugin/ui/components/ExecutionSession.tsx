@@ -0,0 +1,295 @@
+// ============================================================
+// ExecutionSession.tsx - One execution tab: its run, its plugin UI
+//
+// Every session stays mounted while its tab is open (hidden when
+// inactive) so a plugin iframe keeps running in the background.
+//
+// With hot reload on, the session watches its project over Supabase
+// Realtime, or polls its local dev server (bundle-watcher.ts): a new
+// version replaces the session bundle and, if the project was already
+// run, is re-run right away (the executor ends the previous run of
+// the project first).
+//
+// A previous version of the project (useBundleVersions) can be pinned
+// to run in place of the latest one; hot reload then keeps the latest
+// bundle up to date for the diff but does not re-run.
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'preact/hooks';
+import type { DryRunReadMode, ExecutionStatus, HotReloadMode, HotReloadState, ParsedBundle, Project } from '../../plugin/types/runner.types';
+import { DEFAULT_HOT_RELOAD_STATE } from '../../plugin/types/runner.types';
+import type { PluginMessage } from '../../plugin/types/messages.types';
+import { usePluginMessages, sendToPlugin } from '../hooks/useMessaging';
+import { useExecution } from '../hooks/useExecution';
+import { useProjectStorage } from '../hooks/useProjectStorage';
+import { useBundleVersions } from '../hooks/useBundleVersions';
+import { listCommands } from '../../plugin/services/commands.service';
+import { loadBundle } from '../lib/bundle-loader';
+import { analyzeBundle, hasBlockingDiagnostics } from '../lib/preflight';
+import { watchProjectBundle, pollDevServer } from '../lib/bundle-watcher';
+import { Execution } from './Execution';
+import { NotificationToasts } from './NotificationToasts';
+
+interface Props {
+  project: Project;
+  bundle: ParsedBundle;
+  /** Dropped files: no hot reload nor bundle source */
+  local: boolean;
+  /** Run when the session opens; local plugins also run when dropped again */
+  runOnOpen: boolean;
+  /** Visible tab: the Runner window follows its plugin UI size */
+  active: boolean;
+  /** Height taken by the tab bar above the session */
+  tabBarHeight: number;
+  supabaseUrl: string;
+  idleTimeout: number | null;
+  onIdleTimeoutChange: (projectId: string, seconds: number | null) => void;
+  /** Local dev server the bundle is loaded from, null = Supabase */
+  devServerUrl: string | null;
+  onDevServerChange: (projectId: string, url: string | null) => void;
+  onStatusChange: (projectId: string, status: ExecutionStatus) => void;
+  /** A new version of the project was loaded by hot reload */
+  onBundleChange: (projectId: string, bundle: ParsedBundle) => void;
+  onBack: () => void;
+}
+
+export const ExecutionSession: FunctionalComponent<Props> = ({ project, bundle, local, runOnOpen, active, tabBarHeight, supabaseUrl, idleTimeout, onIdleTimeoutChange, devServerUrl, onDevServerChange, onStatusChange, onBundleChange, onBack }) => {
+  const [dryRunMode, setDryRunMode] = useState<DryRunReadMode | null>(null);
+  const versionsHook = useBundleVersions(project.id);
+  const [pinned, setPinned] = useState<{ id: string; bundle: ParsedBundle } | null>(null);
+  const runBundle = pinned ? pinned.bundle : bundle;
+  const commands = useMemo(() => listCommands(runBundle.manifest), [runBundle]);
+  // Syntax errors and unsupported patterns, found before anything is run
+  const preflight = useMemo(() => analyzeBundle(runBundle), [runBundle]);
+  const blocked = hasBlockingDiagnostics(preflight);
+  const [command, setCommand] = useState(commands[0].command);
+  const executionHook = useExecution(active);
+  const storageHook = useProjectStorage(project.id);
+  const { pluginUI } = executionHook;
+  const hasPluginUI = pluginUI.html !== null && pluginUI.visible;
+  const [hotReloadMode, setHotReloadMode] = useState<HotReloadMode>(local ? 'off' : 'reload');
+  const [hotReload, setHotReload] = useState<HotReloadState>(DEFAULT_HOT_RELOAD_STATE);
+  // Latest values for the Realtime callback
+  const latestRef = useRef({ bundle, pinned, status: executionHook.status, pluginUI, hotReloadMode, devServerUrl });
+  latestRef.current = { bundle, pinned, status: executionHook.status, pluginUI, hotReloadMode, devServerUrl };
+  // Set when the bundle to run (hot reload, pinned version) must be run once rendered
+  const rerunRef = useRef<{ width: number; height: number } | null | false>(false);
+
+  const manifestIdleTimeout = typeof runBundle.manifest.runner?.idleTimeout === 'number'
+    ? runBundle.manifest.runner.idleTimeout
+    : null;
+
+  useEffect(() => { executionHook.setSupabaseUrl(supabaseUrl); }, [supabaseUrl]);
+  useEffect(() => { onStatusChange(project.id, executionHook.status); }, [executionHook.status]);
+  // Closing the tab stops its run
+  useEffect(() => () => { executionHook.stop(); executionHook.reset(); }, []);
+
+  useEffect(() => {
+    if (!active) return;
+    if (hasPluginUI) {
+      sendToPlugin({ type: 'RESIZE_RUNNER', payload: { width: pluginUI.width, height: pluginUI.height + tabBarHeight } });
+    } else {
+      sendToPlugin({ type: 'RESTORE_RUNNER_SIZE' });
+    }
+  }, [active, hasPluginUI, pluginUI.width, pluginUI.height, tabBarHeight]);
+
+  const onPluginMessage = useCallback(
+    (msg: PluginMessage) => {
+      if (executionHook.handlePluginMessage(msg)) return;
+      storageHook.handlePluginMessage(msg);
+    },
+    [executionHook.handlePluginMessage, storageHook.handlePluginMessage],
+  );
+
+  usePluginMessages(onPluginMessage);
+
+  const handleExecute = useCallback((uiSize?: { width: number; height: number }) => {
+    // Also skips the automatic runs (open, hot reload) of a broken bundle
+    if (blocked) return;
+    // Project setting > manifest `runner.idleTimeout` > executor default
+    const seconds = idleTimeout ?? manifestIdleTimeout;
+    setHotReload((prev) => ({ ...prev, runVersion: runBundle.version }));
+    executionHook.start(runBundle, project.id, {
+      idleTimeoutMs: seconds !== null ? seconds * 1000 : undefined,
+      dryRun: dryRunMode ?? undefined,
+      command: commands.find((c) => c.command === command) ?? commands[0],
+      uiSize,
+      // Logs are streamed to the Studio project, which local plugins lack
+      streamLogs: !local,
+    });
+  }, [runBundle, blocked, project.id, local, executionHook.start, idleTimeout, manifestIdleTimeout, dryRunMode, commands, command]);
+
+  // Fetches the latest bundle from the session source; with hot reload on,
+  // a new version of a project already run is re-run
+  const reloadBundle = useCallback(async () => {
+    const source = latestRef.current.devServerUrl;
+    setHotReload((prev) => ({ ...prev, reloading: true, error: null }));
+    try {
+      const next = await loadBundle(project.id, source);
+      const latest = latestRef.current;
+      // The source changed meanwhile: its own reload wins
+      if (latest.devServerUrl !== source) return;
+      if (next.version !== latest.bundle.version) {
+        if (latest.hotReloadMode !== 'off' && latest.status !== 'idle' && !latest.pinned) {
+          const ui = latest.pluginUI;
+          rerunRef.current = latest.hotReloadMode === 'keep-size' && ui.html !== null
+            ? { width: ui.width, height: ui.height }
+            : null;
+        }
+        onBundleChange(project.id, next);
+      }
+      setHotReload((prev) => ({ ...prev, reloading: false }));
+    } catch (err) {
+      if (latestRef.current.devServerUrl !== source) return;
+      const message = err instanceof Error ? err.message : 'Erreur reseau';
+      setHotReload((prev) => ({ ...prev, reloading: false, error: `Rechargement impossible: ${message}` }));
+    }
+  }, [project.id, onBundleChange]);
+
+  useEffect(() => {
+    setHotReload((prev) => ({ ...prev, connected: false }));
+    if (hotReloadMode === 'off') {
+      setHotReload((prev) => ({ ...prev, reloading: false }));
+      return;
+    }
+    const config = {
+      onChange: reloadBundle,
+      onConnectedChange: (connected: boolean) => setHotReload((prev) => ({ ...prev, connected })),
+    };
+    const watcher = devServerUrl
+      ? pollDevServer({ ...config, url: devServerUrl })
+      : watchProjectBundle({ ...config, projectId: project.id });
+    return () => watcher.stop();
+  }, [project.id, hotReloadMode, devServerUrl, reloadBundle]);
+
+  // A new source is loaded right away
+  const sourceRef = useRef(devServerUrl);
+  useEffect(() => {
+    if (sourceRef.current === devServerUrl) return;
+    sourceRef.current = devServerUrl;
+    // Saved versions are Supabase ones
+    setPinned(null);
+    reloadBundle();
+  }, [devServerUrl]);
+
+  const handleDevServerChange = useCallback((url: string | null) => {
+    onDevServerChange(project.id, url);
+  }, [project.id, onDevServerChange]);
+
+  // Local and cached sessions run as soon as they open (local ones again when dropped again)
+  useEffect(() => {
+    if (runOnOpen) handleExecute();
+  }, [local ? bundle.version : null]);
+
+  // Re-run once the new bundle is in handleExecute
+  useEffect(() => {
+    const rerun = rerunRef.current;
+    if (rerun === false) return;
+    rerunRef.current = false;
+    handleExecute(rerun ?? undefined);
+  }, [runBundle.version]);
+
+  const handleRunVersion = useCallback(async (versionId: string) => {
+    try {
+      const next = await versionsHook.load(versionId);
+      if (next.version === runBundle.version) {
+        setPinned({ id: versionId, bundle: next });
+        handleExecute();
+        return;
+      }
+      rerunRef.current = null;
+      setPinned({ id: versionId, bundle: next });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur reseau';
+      setHotReload((prev) => ({ ...prev, error: `Version non chargee: ${message}` }));
+    }
+  }, [versionsHook.load, runBundle.version, handleExecute]);
+
+  const handleRunLatest = useCallback(() => {
+    if (bundle.version === runBundle.version) {
+      setPinned(null);
+      handleExecute();
+      return;
+    }
+    rerunRef.current = null;
+    setPinned(null);
+  }, [bundle.version, runBundle.version, handleExecute]);
+
+  const dismissReloadError = useCallback(() => setHotReload((prev) => ({ ...prev, error: null })), []);
+
+  const handleIdleTimeoutChange = useCallback((seconds: number | null) => {
+    onIdleTimeoutChange(project.id, seconds);
+  }, [project.id, onIdleTimeoutChange]);
+
+  return (
+    <div class="exec-tab-content" style={{ display: active ? 'flex' : 'none' }}>
+      <Execution
+        project={project}
+        bundle={runBundle}
+        status={executionHook.status}
+        executionId={executionHook.executionId}
+        logs={executionHook.logs}
+        duration={executionHook.duration}
+        scriptDuration={executionHook.scriptDuration}
+        idleTimeout={idleTimeout}
+        manifestIdleTimeout={manifestIdleTimeout}
+        onIdleTimeoutChange={handleIdleTimeoutChange}
+        dryRunMode={dryRunMode}
+        onDryRunModeChange={setDryRunMode}
+        runDryRun={executionHook.dryRun}
+        commands={commands}
+        command={command}
+        onCommandChange={setCommand}
+        parameterRequest={executionHook.parameterRequest}
+        parameterSuggestions={executionHook.parameterSuggestions}
+        onParameterQuery={executionHook.queryParameter}
+        onParametersSubmit={executionHook.submitParameters}
+        trace={executionHook.trace}
+        traceDropped={executionHook.traceDropped}
+        error={executionHook.error}
+        diagnostics={executionHook.diagnostics}
+        preflight={preflight}
+        pluginUI={pluginUI}
+        pluginIframeRef={executionHook.pluginIframeRef}
+        journal={executionHook.journal}
+        profile={executionHook.profile}
+        revertState={executionHook.revertState}
+        onRevert={executionHook.revert}
+        listeners={executionHook.listeners}
+        pendingTimers={executionHook.pendingTimers}
+        storageEntries={storageHook.entries}
+        storageLoading={storageHook.loading}
+        onStorageRefresh={storageHook.refresh}
+        onStorageClear={storageHook.clear}
+        local={local}
+        devServerUrl={devServerUrl}
+        onDevServerChange={handleDevServerChange}
+        onBundleRefresh={reloadBundle}
+        versions={versionsHook.versions}
+        versionsLoading={versionsHook.loading}
+        versionsError={versionsHook.error}
+        versionsAvailable={versionsHook.available}
+        latestBundle={bundle}
+        pinnedVersionId={pinned ? pinned.id : null}
+        onVersionsRefresh={versionsHook.refresh}
+        onVersionLoad={versionsHook.load}
+        onRunVersion={handleRunVersion}
+        onRunLatest={handleRunLatest}
+        hotReloadMode={hotReloadMode}
+        onHotReloadModeChange={setHotReloadMode}
+        hotReload={hotReload}
+        onDismissReloadError={dismissReloadError}
+        onExecute={() => handleExecute()}
+        onStop={executionHook.stop}
+        onReset={executionHook.reset}
+        onBack={onBack}
+      />
+      <NotificationToasts
+        notifications={executionHook.notifications}
+        onDismiss={executionHook.dismissNotification}
+        onAction={executionHook.runNotificationAction}
+      />
+    </div>
+  );
+};
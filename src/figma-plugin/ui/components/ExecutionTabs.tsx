@@ -0,0 +1,47 @@
+// ============================================================
+// ExecutionTabs.tsx - Tab bar of the concurrent execution sessions
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { ExecutionStatus, Project } from '../../plugin/types/runner.types';
+import { STATUS_COLORS, STATUS_LABELS } from './Execution';
+
+/** Height of the bar, added to the Runner window around a plugin UI */
+export const TAB_BAR_HEIGHT = 34;
+
+interface Props {
+  projects: Project[];
+  activeProjectId: string | null;
+  statuses: Record<string, ExecutionStatus>;
+  onSelect: (projectId: string) => void;
+  /** Closes the tab and stops its run */
+  onClose: (projectId: string) => void;
+}
+
+export const ExecutionTabs: FunctionalComponent<Props> = ({ projects, activeProjectId, statuses, onSelect, onClose }) => (
+  <div class="exec-tabs" style={{ height: `${TAB_BAR_HEIGHT}px` }}>
+    {projects.map((project) => {
+      const status = statuses[project.id] ?? 'idle';
+      return (
+        <button
+          key={project.id}
+          class={`exec-tab ${project.id === activeProjectId ? 'exec-tab-active' : ''}`}
+          onClick={() => onSelect(project.id)}
+          title={`${project.name} - ${STATUS_LABELS[status]}`}
+        >
+          <span class="exec-status-dot" style={{ background: STATUS_COLORS[status] }} />
+          <span class="exec-tab-name">{project.name}</span>
+          {(status === 'running' || status === 'loading') && <span class="exec-tab-badge">{STATUS_LABELS[status]}</span>}
+          <span
+            class="exec-tab-close"
+            role="button"
+            title="Fermer l'onglet (arrete l'execution)"
+            onClick={(e: Event) => { e.stopPropagation(); onClose(project.id); }}
+          >
+            &times;
+          </span>
+        </button>
+      );
+    })}
+  </div>
+);
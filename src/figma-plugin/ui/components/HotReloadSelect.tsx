@@ -0,0 +1,39 @@
+// ============================================================
+// HotReloadSelect.tsx - Reload & re-run when the project changes
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { HotReloadMode } from '../../plugin/types/runner.types';
+
+interface Props {
+  value: HotReloadMode;
+  /** Realtime channel subscribed / dev server reachable */
+  connected: boolean;
+  onChange: (mode: HotReloadMode) => void;
+}
+
+const OPTIONS: Array<{ mode: HotReloadMode; label: string }> = [
+  { mode: 'off', label: 'Desactive' },
+  { mode: 'reload', label: 'Recharger' },
+  { mode: 'keep-size', label: 'Recharger (garder la taille)' },
+];
+
+export const HotReloadSelect: FunctionalComponent<Props> = ({ value, connected, onChange }) => (
+  <label
+    class="idle-timeout"
+    title={value !== 'off' && !connected
+      ? 'Source du bundle pas encore jointe (Realtime ou serveur local)'
+      : 'Recharge le bundle et relance le run quand le projet change (Vibe Code Studio ou serveur local)'}
+  >
+    <span>Hot reload{value !== 'off' && !connected ? ' (hors ligne)' : ''}</span>
+    <select
+      class="idle-timeout-select"
+      value={value}
+      onChange={(e) => onChange((e.target as HTMLSelectElement).value as HotReloadMode)}
+    >
+      {OPTIONS.map((o) => (
+        <option key={o.mode} value={o.mode}>{o.label}</option>
+      ))}
+    </select>
+  </label>
+);
@@ -0,0 +1,48 @@
+// ============================================================
+// IdleTimeoutSelect.tsx - Per-project idle timeout override
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+
+interface Props {
+  /** Project override in seconds, null = use manifest / default */
+  value: number | null;
+  /** `runner.idleTimeout` declared in the manifest, in seconds */
+  manifestValue: number | null;
+  disabled?: boolean;
+  onChange: (seconds: number | null) => void;
+}
+
+const OPTIONS: Array<{ seconds: number; label: string }> = [
+  { seconds: 30, label: '30s' },
+  { seconds: 60, label: '1 min' },
+  { seconds: 300, label: '5 min' },
+  { seconds: 900, label: '15 min' },
+  { seconds: 0, label: 'Aucun' },
+];
+
+export const IdleTimeoutSelect: FunctionalComponent<Props> = ({ value, manifestValue, disabled, onChange }) => {
+  const defaultLabel = manifestValue !== null
+    ? `Manifest (${manifestValue === 0 ? 'aucun' : `${manifestValue}s`})`
+    : 'Par defaut (1 min)';
+
+  return (
+    <label class="idle-timeout" title="Duree d'inactivite avant l'arret de la session">
+      <span>Inactivite</span>
+      <select
+        class="idle-timeout-select"
+        value={value === null ? '' : String(value)}
+        disabled={disabled}
+        onChange={(e) => {
+          const raw = (e.target as HTMLSelectElement).value;
+          onChange(raw === '' ? null : Number(raw));
+        }}
+      >
+        <option value="">{defaultLabel}</option>
+        {OPTIONS.map((o) => (
+          <option key={o.seconds} value={String(o.seconds)}>{o.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
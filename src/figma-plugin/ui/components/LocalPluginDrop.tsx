@@ -0,0 +1,51 @@
+// ============================================================
+// LocalPluginDrop.tsx - "Run local plugin" from a folder or a .zip
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState, useRef, useEffect } from 'preact/hooks';
+
+interface Props {
+  disabled?: boolean;
+  onFiles: (source: DataTransfer | File[]) => void;
+}
+
+export const LocalPluginDrop: FunctionalComponent<Props> = ({ disabled, onFiles }) => {
+  const [dragging, setDragging] = useState(false);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Not in the JSX typings
+  useEffect(() => { folderInputRef.current?.setAttribute('webkitdirectory', ''); }, []);
+
+  const handleInput = (e: Event) => {
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!disabled && e.dataTransfer && e.dataTransfer.items.length > 0) onFiles(e.dataTransfer);
+  };
+
+  return (
+    <div
+      class={`local-drop${dragging ? ' local-drop-active' : ''}`}
+      onDragOver={(e: DragEvent) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      <span class="local-drop-title">Run local plugin</span>
+      <span class="local-drop-hint">Drop a plugin folder or .zip (manifest.json, code.js, ui.html)</span>
+      <div class="local-drop-actions">
+        <button class="btn btn-ghost" disabled={disabled} onClick={() => zipInputRef.current?.click()}>Choose .zip</button>
+        <button class="btn btn-ghost" disabled={disabled} onClick={() => folderInputRef.current?.click()}>Choose folder</button>
+      </div>
+      <input ref={zipInputRef} type="file" accept=".zip,application/zip" style={{ display: 'none' }} onChange={handleInput} />
+      <input ref={folderInputRef} type="file" multiple style={{ display: 'none' }} onChange={handleInput} />
+    </div>
+  );
+};
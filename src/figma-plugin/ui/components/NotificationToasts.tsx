@@ -0,0 +1,43 @@
+// ============================================================
+// NotificationToasts.tsx - figma.notify() toasts of a run
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useEffect } from 'preact/hooks';
+import type { PluginNotification } from '../../plugin/types/messages.types';
+
+interface Props {
+  notifications: PluginNotification[];
+  onDismiss: (notificationId: string) => void;
+  /** Button click: the plugin action decides whether the toast closes */
+  onAction: (notificationId: string) => void;
+}
+
+const Toast: FunctionalComponent<{ notification: PluginNotification } & Omit<Props, 'notifications'>> = ({ notification, onDismiss, onAction }) => {
+  const { notificationId, message, error, timeout, button } = notification;
+
+  useEffect(() => {
+    if (timeout === null) return;
+    const handle = setTimeout(() => onDismiss(notificationId), timeout);
+    return () => clearTimeout(handle);
+  }, [notificationId, timeout]);
+
+  return (
+    <div class={`notify-toast ${error ? 'notify-toast-error' : ''}`} role="status">
+      <span class="notify-message">{message}</span>
+      {button && <button class="notify-button" onClick={() => onAction(notificationId)}>{button}</button>}
+      <button class="notify-close" onClick={() => onDismiss(notificationId)} title="Fermer">&times;</button>
+    </div>
+  );
+};
+
+export const NotificationToasts: FunctionalComponent<Props> = ({ notifications, onDismiss, onAction }) => {
+  if (notifications.length === 0) return null;
+  return (
+    <div class="notify-stack">
+      {notifications.map((n) => (
+        <Toast key={n.notificationId} notification={n} onDismiss={onDismiss} onAction={onAction} />
+      ))}
+    </div>
+  );
+};
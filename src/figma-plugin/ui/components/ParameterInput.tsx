@@ -0,0 +1,108 @@
+// ============================================================
+// ParameterInput.tsx - Figma-like quick-action input for parameters
+//
+// Parameters are entered one after the other. Each keystroke asks the
+// plugin's figma.parameters.on('input') handler for suggestions; the
+// values are sent with the `run` event once the last one is entered.
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState, useEffect, useRef } from 'preact/hooks';
+import type { ManifestParameter } from '../../plugin/types/runner.types';
+import type { ParameterSuggestion } from '../../plugin/types/messages.types';
+import type { ParameterSuggestions } from '../hooks/useExecution';
+
+interface Props {
+  parameters: ManifestParameter[];
+  /** Latest answer of the plugin's input handler */
+  suggestions: ParameterSuggestions | null;
+  onQuery: (key: string, query: string, values: Record<string, unknown>) => void;
+  onSubmit: (values: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+export const ParameterInput: FunctionalComponent<Props> = ({ parameters, suggestions, onQuery, onSubmit, onCancel }) => {
+  const [index, setIndex] = useState(0);
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [labels, setLabels] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const param = parameters[index];
+
+  // Like Figma, the handler is called with an empty query when a field opens
+  useEffect(() => {
+    if (!param) return;
+    setQuery('');
+    onQuery(param.key, '', values);
+    inputRef.current?.focus();
+  }, [index]);
+
+  if (!param) return null;
+
+  const current = suggestions && suggestions.key === param.key && suggestions.query === query ? suggestions : null;
+
+  const accept = (value: unknown, label: string) => {
+    const next = { ...values };
+    if (value !== undefined) next[param.key] = value;
+    setValues(next);
+    setLabels((prev) => [...prev, label]);
+    if (index + 1 < parameters.length) {
+      setIndex(index + 1);
+    } else {
+      onSubmit(next);
+    }
+  };
+
+  const pick = (s: ParameterSuggestion) => accept(s.data !== undefined ? s.data : s.name, s.name);
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (current && current.suggestions.length > 0 && !param.allowFreeform) {
+        pick(current.suggestions[0]);
+      } else if (param.allowFreeform && query) {
+        accept(query, query);
+      }
+    }
+  };
+
+  return (
+    <div class="param-input">
+      <div class="param-header">
+        {labels.map((label, i) => <span key={i} class="param-chip" title={parameters[i].name}>{label || '-'}</span>)}
+        <span class="param-name">{param.name}</span>
+      </div>
+      <input
+        ref={inputRef}
+        class="param-field"
+        value={query}
+        placeholder={param.description || param.name}
+        onInput={(e) => {
+          const q = (e.target as HTMLInputElement).value;
+          setQuery(q);
+          onQuery(param.key, q, values);
+        }}
+        onKeyDown={handleKeyDown}
+      />
+      {current?.error && <div class="param-message param-error">{current.error}</div>}
+      {current?.loadingMessage && <div class="param-message">{current.loadingMessage}</div>}
+      {current && current.suggestions.length > 0 && (
+        <div class="param-suggestions">
+          {current.suggestions.map((s, i) => (
+            <button key={i} class="param-suggestion" onClick={() => pick(s)}>
+              {s.iconUrl && <img class="param-icon" src={s.iconUrl} alt="" />}
+              <span>{s.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div class="param-actions">
+        {param.optional && <button class="btn btn-ghost" onClick={() => accept(undefined, '')}>Ignorer</button>}
+        {param.allowFreeform && <button class="btn btn-ghost" disabled={!query} onClick={() => accept(query, query)}>Valider</button>}
+        <button class="btn btn-ghost" onClick={onCancel}>Annuler</button>
+      </div>
+    </div>
+  );
+};
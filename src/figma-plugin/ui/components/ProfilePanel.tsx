@@ -0,0 +1,79 @@
+// ============================================================
+// ProfilePanel.tsx - figma API usage of the last run
+//
+// Calls and property accesses are grouped by name and sorted by
+// total time, so a findAll or loadFontAsync made in a loop stands out.
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState } from 'preact/hooks';
+import type { ApiAccessKind, ApiProfile } from '../../plugin/types/messages.types';
+
+interface Props {
+  profile: ApiProfile;
+}
+
+const MAX_ENTRIES = 30;
+
+function formatMs(ms: number): string {
+  if (ms < 1) return '<1ms';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+function label(name: string, kind: ApiAccessKind): string {
+  if (kind === 'call') return `${name}()`;
+  if (kind === 'set') return `${name} =`;
+  return name;
+}
+
+export const ProfilePanel: FunctionalComponent<Props> = ({ profile }) => {
+  const [open, setOpen] = useState(false);
+  if (profile.totalCalls === 0) return null;
+
+  const entries = profile.entries.slice(0, MAX_ENTRIES);
+
+  return (
+    <div class="storage-panel">
+      <button class="storage-toggle" onClick={() => setOpen(!open)}>
+        <span>{open ? '▾' : '▸'} Profil API figma</span>
+        <span class="storage-count">{profile.totalCalls} acces &middot; {formatMs(profile.totalMs)}</span>
+      </button>
+      {open && (
+        <div class="storage-body">
+          <div class="profile-row profile-head">
+            <span class="profile-name">Appel</span>
+            <span class="profile-num">Nb</span>
+            <span class="profile-num">Total</span>
+            <span class="profile-num">Max</span>
+          </div>
+          {entries.map((e) => (
+            <div key={`${e.kind}:${e.name}`} class="profile-row">
+              <span class="profile-name" title={label(e.name, e.kind)}>{label(e.name, e.kind)}</span>
+              <span class="profile-num">{e.count}</span>
+              <span class="profile-num">{formatMs(e.totalMs)}</span>
+              <span class="profile-num">{formatMs(e.maxMs)}</span>
+            </div>
+          ))}
+          {profile.entries.length > MAX_ENTRIES && (
+            <div class="storage-empty">+ {profile.entries.length - MAX_ENTRIES} autres</div>
+          )}
+          {profile.slowest.length > 0 && (
+            <div>
+              <div class="profile-section">Appels les plus lents</div>
+              {profile.slowest.map((c, i) => (
+                <div key={i} class="profile-row">
+                  <span class="profile-name" title={label(c.name, c.kind)}>
+                    {label(c.name, c.kind)}{c.async && <span class="profile-async"> async</span>}
+                  </span>
+                  <span class="profile-num" title="Depuis le debut du run">+{formatMs(c.at)}</span>
+                  <span class="profile-num">{formatMs(c.durationMs)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -5,8 +5,10 @@
 import { h, FunctionalComponent } from 'preact';
 import { useEffect } from 'preact/hooks';
 import type { Project } from '../../plugin/types/runner.types';
+import type { CachedBundleInfo } from '../../plugin/types/messages.types';
 import { StatusBadge } from './StatusBadge';
 import { ErrorBanner } from './ErrorBanner';
+import { LocalPluginDrop } from './LocalPluginDrop';
 
 interface Props {
   userId: string;
@@ -15,19 +17,29 @@ interface Props {
   loading: boolean;
   error: string | null;
   bundleError: string | null;
+  /** Project whose bundle failed to load, offered its cached version */
+  failedProject: Project | null;
+  /** Cached bundle versions, newest first */
+  cache: CachedBundleInfo[];
   onFetch: () => Promise<void>;
   onClearError: () => void;
   onClearBundleError: () => void;
   onSelect: (project: Project) => void;
+  onRunCached: (project: Project) => void;
+  /** Dropped / picked plugin files with no Studio project */
+  onRunLocal: (source: DataTransfer | File[]) => void;
   onSignOut: () => void;
 }
 
 export const ProjectList: FunctionalComponent<Props> = ({
-  userEmail, projects, loading, error, bundleError,
-  onFetch, onClearError, onClearBundleError, onSelect, onSignOut,
+  userEmail, projects, loading, error, bundleError, failedProject, cache,
+  onFetch, onClearError, onClearBundleError, onSelect, onRunCached, onRunLocal, onSignOut,
 }) => {
   useEffect(() => { onFetch(); }, [onFetch]);
 
+  const latestCached = (projectId: string) => cache.find((e) => e.projectId === projectId);
+  const failedCached = failedProject ? latestCached(failedProject.id) : undefined;
+
   return (
     <div class="screen">
       <div class="screen-header">
@@ -36,9 +48,15 @@ export const ProjectList: FunctionalComponent<Props> = ({
       </div>
       {error && <ErrorBanner message={error} onDismiss={onClearError} />}
       {bundleError && <ErrorBanner message={bundleError} onDismiss={onClearBundleError} />}
+      {bundleError && failedProject && failedCached && (
+        <button class="btn btn-primary cache-run" onClick={() => onRunCached(failedProject)}>
+          Run cached version (v{failedCached.version.slice(0, 7)} · {formatDate(failedCached.cachedAt)})
+        </button>
+      )}
       <div class="project-toolbar">
         <button class="btn btn-ghost" onClick={onFetch} disabled={loading}>{loading ? 'Loading...' : 'Refresh'}</button>
       </div>
+      <LocalPluginDrop onFiles={onRunLocal} />
       {loading && projects.length === 0 && (
         <div class="loader" style={{ flex: 1 }}><div class="spinner" /><span>Loading projects...</span></div>
       )}
@@ -47,18 +65,39 @@ export const ProjectList: FunctionalComponent<Props> = ({
       )}
       {projects.length > 0 && (
         <div class="project-list">
-          {projects.map((project) => (
-            <button key={project.id} class="project-item" onClick={() => onSelect(project)}>
-              <div class="project-item-header">
-                <span class="project-item-name">{project.name}</span>
-                <StatusBadge status={project.status} />
-              </div>
-              {project.description && <div class="project-item-desc">{project.description}</div>}
-            </button>
-          ))}
+          {projects.map((project) => {
+            const cached = latestCached(project.id);
+            // Saved in Studio after the cached version was loaded
+            const outdated = !!cached && Date.parse(project.updated_at) > cached.cachedAt;
+            return (
+              <button key={project.id} class="project-item" onClick={() => onSelect(project)}>
+                <div class="project-item-header">
+                  <span class="project-item-name">{project.name}</span>
+                  {cached && (
+                    <span
+                      class={`cache-badge${outdated ? ' cache-badge-outdated' : ''}`}
+                      title={`v${cached.version.slice(0, 7)} · ${formatDate(cached.cachedAt)} · ${formatSize(cached.size)}`}
+                    >
+                      {outdated ? 'Cached (outdated)' : 'Cached'}
+                    </span>
+                  )}
+                  <StatusBadge status={project.status} />
+                </div>
+                {project.description && <div class="project-item-desc">{project.description}</div>}
+              </button>
+            );
+          })}
         </div>
       )}
       <button class="btn btn-ghost" style={{ marginTop: 'auto' }} onClick={onSignOut}>Sign out</button>
     </div>
   );
 };
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function formatSize(size: number): string {
+  return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+}
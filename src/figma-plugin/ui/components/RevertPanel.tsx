@@ -0,0 +1,47 @@
+// ============================================================
+// RevertPanel.tsx - "Revert this run" for journaled document changes
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { JournalSummary } from '../../plugin/types/messages.types';
+import type { RevertState } from '../../plugin/types/runner.types';
+
+interface Props {
+  journal: JournalSummary;
+  revert: RevertState;
+  onRevert: () => void;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count > 1 ? 's' : ''}`;
+}
+
+export const RevertPanel: FunctionalComponent<Props> = ({ journal, revert, onRevert }) => {
+  const total = journal.created + journal.modified + journal.removed;
+  if (total === 0 && !revert.result) return null;
+
+  if (revert.result) {
+    const r = revert.result;
+    return (
+      <div class="revert-panel">
+        <span class="revert-summary">
+          Run annule : {plural(r.deleted, 'noeud')} supprime{r.deleted > 1 ? 's' : ''}, {plural(r.restored, 'modification')} restauree{r.restored > 1 ? 's' : ''}
+          {r.failed > 0 && <span class="revert-warning"> &middot; {r.failed} echec{r.failed > 1 ? 's' : ''}</span>}
+          {r.unrecoverable > 0 && <span class="revert-warning"> &middot; {plural(r.unrecoverable, 'suppression')} non recuperable{r.unrecoverable > 1 ? 's' : ''}</span>}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div class="revert-panel">
+      <span class="revert-summary">
+        {journal.created} cree{journal.created > 1 ? 's' : ''} &middot; {journal.modified} modifie{journal.modified > 1 ? 's' : ''} &middot; {journal.removed} supprime{journal.removed > 1 ? 's' : ''}
+      </span>
+      <button class="btn btn-ghost" onClick={onRevert} disabled={revert.pending}>
+        {revert.pending ? 'Annulation...' : 'Annuler ce run'}
+      </button>
+      {revert.error && <span class="revert-warning">{revert.error}</span>}
+    </div>
+  );
+};
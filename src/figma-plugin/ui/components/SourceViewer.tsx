@@ -0,0 +1,49 @@
+// ============================================================
+// SourceViewer.tsx - Bundle source excerpt around a stack frame
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { BundleFile, StackFrame } from '../../plugin/types/runner.types';
+
+interface Props {
+  frame: StackFrame;
+  files: BundleFile[];
+  onClose: () => void;
+}
+
+const CONTEXT_LINES = 6;
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.?\/)+/, '');
+}
+
+export const SourceViewer: FunctionalComponent<Props> = ({ frame, files, onClose }) => {
+  const file = files.find((f) => normalizePath(f.path) === normalizePath(frame.file));
+  const lines = file ? file.content.split('\n') : [];
+  const first = Math.max(1, frame.line - CONTEXT_LINES);
+  const last = Math.min(lines.length, frame.line + CONTEXT_LINES);
+
+  return (
+    <div class="source-viewer">
+      <div class="source-viewer-header">
+        <span class="source-viewer-title">{frame.file}:{frame.line}:{frame.column}</span>
+        <button class="error-banner-close" onClick={onClose} aria-label="Fermer">&times;</button>
+      </div>
+      {!file ? (
+        <div class="source-viewer-empty">Source non disponible dans le bundle.</div>
+      ) : (
+        <pre class="source-viewer-code">
+          {lines.slice(first - 1, last).map((text, i) => {
+            const lineNumber = first + i;
+            return (
+              <div key={lineNumber} class={`source-line ${lineNumber === frame.line ? 'source-line-active' : ''}`}>
+                <span class="source-line-number">{lineNumber}</span>
+                <span class="source-line-text">{text || ' '}</span>
+              </div>
+            );
+          })}
+        </pre>
+      )}
+    </div>
+  );
+};
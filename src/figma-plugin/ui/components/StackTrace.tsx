@@ -0,0 +1,30 @@
+// ============================================================
+// StackTrace.tsx - Log stack trace with clickable file:line frames
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import type { StackFrame } from '../../plugin/types/runner.types';
+
+interface Props {
+  stackTrace?: string;
+  frames?: StackFrame[];
+  onOpenFrame: (frame: StackFrame) => void;
+}
+
+export const StackTrace: FunctionalComponent<Props> = ({ stackTrace, frames, onOpenFrame }) => {
+  if (frames && frames.length > 0) {
+    return (
+      <div class="exec-log-stack">
+        {frames.map((frame, i) => (
+          <button key={i} class="exec-stack-frame" onClick={() => onOpenFrame(frame)} title="Voir la source">
+            {frame.functionName && <span class="exec-stack-fn">{frame.functionName}</span>}
+            <span class="exec-stack-loc">{frame.file}:{frame.line}:{frame.column}</span>
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (!stackTrace) return null;
+  return <div class="exec-log-stack">{stackTrace}</div>;
+};
@@ -0,0 +1,56 @@
+// ============================================================
+// StoragePanel.tsx - Keys a project stored with figma.clientStorage
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState } from 'preact/hooks';
+import type { StorageEntry } from '../../plugin/types/messages.types';
+
+interface Props {
+  entries: StorageEntry[] | null;
+  loading: boolean;
+  disabled?: boolean;
+  onRefresh: () => void;
+  onClear: (key?: string) => void;
+}
+
+function formatSize(size: number): string {
+  return size < 1024 ? `${size} o` : `${(size / 1024).toFixed(1)} Ko`;
+}
+
+export const StoragePanel: FunctionalComponent<Props> = ({ entries, loading, disabled, onRefresh, onClear }) => {
+  const [open, setOpen] = useState(false);
+
+  const toggle = () => {
+    if (!open) onRefresh();
+    setOpen(!open);
+  };
+
+  return (
+    <div class="storage-panel">
+      <button class="storage-toggle" onClick={toggle}>
+        <span>{open ? '▾' : '▸'} Stockage local</span>
+        {entries && <span class="storage-count">{entries.length} cle{entries.length > 1 ? 's' : ''}</span>}
+      </button>
+      {open && (
+        <div class="storage-body">
+          {loading && !entries && <div class="storage-empty">Chargement...</div>}
+          {entries && entries.length === 0 && <div class="storage-empty">Aucune cle enregistree par ce projet.</div>}
+          {entries && entries.map((e) => (
+            <div key={e.key} class="storage-entry">
+              <span class="storage-key" title={e.preview}>{e.key}</span>
+              <span class="storage-size">{formatSize(e.size)}</span>
+              <button class="btn btn-ghost" onClick={() => onClear(e.key)} disabled={disabled || loading} title="Supprimer la cle">&times;</button>
+            </div>
+          ))}
+          <div class="storage-actions">
+            <button class="btn btn-ghost" onClick={onRefresh} disabled={loading}>Actualiser</button>
+            {entries && entries.length > 0 && (
+              <button class="btn btn-ghost" onClick={() => onClear()} disabled={disabled || loading}>Tout effacer</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+// ============================================================
+// VersionsPanel.tsx - Previous bundle versions of a project
+//
+// Any saved version can be run in place of the latest one, and
+// diffed file by file against the latest: bisecting an edit that
+// broke the plugin without leaving Figma.
+// ============================================================
+
+import { h, FunctionalComponent } from 'preact';
+import { useState, useEffect, useMemo } from 'preact/hooks';
+import type { BundleVersion, ParsedBundle } from '../../plugin/types/runner.types';
+import { diffBundles } from '../lib/bundle-diff';
+import { BundleDiffView } from './BundleDiffView';
+
+interface Props {
+  versions: BundleVersion[] | null;
+  loading: boolean;
+  error: string | null;
+  /** Latest bundle of the project, the diff reference */
+  latest: ParsedBundle;
+  /** Version run in place of the latest, null = latest */
+  pinnedId: string | null;
+  disabled?: boolean;
+  onRefresh: () => void;
+  onLoad: (versionId: string) => Promise<ParsedBundle>;
+  onRun: (versionId: string) => void;
+  onRunLatest: () => void;
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export const VersionsPanel: FunctionalComponent<Props> = ({ versions, loading, error, latest, pinnedId, disabled, onRefresh, onLoad, onRun, onRunLatest }) => {
+  const [open, setOpen] = useState(false);
+  const [diffId, setDiffId] = useState<string | null>(null);
+  const [diffBundle, setDiffBundle] = useState<ParsedBundle | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  // The diff follows the version being run
+  useEffect(() => { setDiffId(pinnedId); }, [pinnedId]);
+
+  useEffect(() => {
+    setDiffBundle(null); setDiffError(null);
+    if (!diffId) return;
+    let cancelled = false;
+    onLoad(diffId).then(
+      (bundle) => { if (!cancelled) setDiffBundle(bundle); },
+      (err) => { if (!cancelled) setDiffError(err instanceof Error ? err.message : 'Erreur reseau'); },
+    );
+    return () => { cancelled = true; };
+  }, [diffId, onLoad]);
+
+  const diffs = useMemo(() => (diffBundle ? diffBundles(diffBundle, latest) : null), [diffBundle, latest]);
+
+  const toggle = () => {
+    if (!open && !versions) onRefresh();
+    setOpen(!open);
+  };
+
+  return (
+    <div class="storage-panel">
+      <button class="storage-toggle" onClick={toggle}>
+        <span>{open ? '▾' : '▸'} Versions</span>
+        {pinnedId && <span class="revert-warning">Ancienne version en cours</span>}
+        {!pinnedId && versions && <span class="storage-count">{versions.length}</span>}
+      </button>
+      {open && (
+        <div class="storage-body">
+          {error && <div class="revert-warning">{error}</div>}
+          {loading && !versions && <div class="storage-empty">Chargement...</div>}
+          {versions && versions.length === 0 && <div class="storage-empty">Aucune version enregistree pour ce projet.</div>}
+          {versions && versions.map((v, i) => (
+            <div key={v.id} class={`storage-entry ${v.id === pinnedId ? 'version-pinned' : ''}`}>
+              <span class="storage-key" title={v.label ?? v.id}>
+                {formatDate(v.createdAt)}{i === 0 && ' · derniere'}{v.label && ` · ${v.label}`}
+              </span>
+              {i > 0 && (
+                <button class="btn btn-ghost" onClick={() => setDiffId(diffId === v.id ? null : v.id)} title="Differences avec la derniere version">
+                  {diffId === v.id ? 'Masquer' : 'Diff'}
+                </button>
+              )}
+              {i === 0 ? (
+                pinnedId && <button class="btn btn-ghost" onClick={onRunLatest} disabled={disabled}>Executer</button>
+              ) : (
+                v.id !== pinnedId && <button class="btn btn-ghost" onClick={() => onRun(v.id)} disabled={disabled}>Executer</button>
+              )}
+            </div>
+          ))}
+          {diffId && (
+            <div class="version-diff">
+              {diffError && <div class="revert-warning">{diffError}</div>}
+              {!diffError && !diffs && <div class="storage-empty">Chargement de la version...</div>}
+              {diffs && <BundleDiffView diffs={diffs} />}
+            </div>
+          )}
+          <div class="storage-actions">
+            <button class="btn btn-ghost" onClick={onRefresh} disabled={loading}>Actualiser</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 // ============================================================
-// useAuth.ts - Auth state + signIn / signOut / auto-reconnect
+// useAuth.ts - Auth state + signIn / signOut / session restore
+// (code.js keeps the tokens in memory only, see auth.service.ts)
 // ============================================================
 
 import { useState, useCallback, useRef } from 'preact/hooks';
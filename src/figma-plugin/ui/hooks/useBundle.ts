@@ -3,8 +3,9 @@
 // ============================================================
 
 import { useState, useCallback } from 'preact/hooks';
-import type { Project, BundleFile, ParsedBundle, ManifestConfig } from '../../plugin/types/runner.types';
-import { getSupabase } from '../lib/supabase';
+import type { Project, ParsedBundle } from '../../plugin/types/runner.types';
+import { loadBundle } from '../lib/bundle-loader';
+import { readLocalFiles, parseLocalBundle } from '../lib/local-bundle';
 import { sendToPlugin } from './useMessaging';
 
 interface UseBundleReturn {
@@ -12,30 +13,21 @@ interface UseBundleReturn {
   selectedProject: Project | null;
   loading: boolean;
   error: string | null;
-  load: (project: Project) => Promise<boolean>;
+  /** Project whose last load failed, which may still have a cached version */
+  failedProject: Project | null;
+  /** Loads from the project's local dev server when `devServerUrl` is set */
+  load: (project: Project, devServerUrl?: string | null) => Promise<ParsedBundle | null>;
+  /** Loads a version kept by the offline bundle cache (useBundleCache) */
+  loadFromCache: (project: Project, loadCached: (projectId: string) => Promise<ParsedBundle>) => Promise<ParsedBundle | null>;
+  /** Parses a dropped folder / .zip into a bundle and a local project for it */
+  loadLocal: (source: DataTransfer | File[]) => Promise<LocalPlugin | null>;
   reset: () => void;
   clearError: () => void;
 }
 
-function validateManifest(raw: unknown): ManifestConfig {
-  if (!raw || typeof raw !== 'object') throw new Error('Manifest absent ou invalide');
-  const m = raw as Record<string, unknown>;
-  const missing: string[] = [];
-  if (!m.name || typeof m.name !== 'string') missing.push('name');
-  if (!m.main || typeof m.main !== 'string') missing.push('main');
-  if (!m.ui || typeof m.ui !== 'string') missing.push('ui');
-  if (missing.length > 0) throw new Error(`Manifest incomplet, champs manquants: ${missing.join(', ')}`);
-  return m as unknown as ManifestConfig;
-}
-
-function extractBundleFiles(files: BundleFile[]): { codeJs: string; uiHtml: string } {
-  const codeFile = files.find((f) => f.path === 'code.js' || f.path.endsWith('/code.js'));
-  const uiFile = files.find((f) => f.path === 'ui.html' || f.path.endsWith('/ui.html'));
-  if (!codeFile) throw new Error('Fichier code.js introuvable dans le bundle');
-  if (!uiFile) throw new Error('Fichier ui.html introuvable dans le bundle');
-  if (!codeFile.content.trim()) throw new Error('code.js est vide');
-  if (!uiFile.content.trim()) throw new Error('ui.html est vide');
-  return { codeJs: codeFile.content, uiHtml: uiFile.content };
+export interface LocalPlugin {
+  project: Project;
+  bundle: ParsedBundle;
 }
 
 export function useBundle(): UseBundleReturn {
@@ -43,32 +35,60 @@ export function useBundle(): UseBundleReturn {
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [failedProject, setFailedProject] = useState<Project | null>(null);
 
-  const load = useCallback(async (project: Project): Promise<boolean> => {
-    setLoading(true); setError(null); setSelectedProject(project); setBundle(null);
+  const load = useCallback(async (project: Project, devServerUrl: string | null = null): Promise<ParsedBundle | null> => {
+    setLoading(true); setError(null); setFailedProject(null); setSelectedProject(project); setBundle(null);
     try {
-      const sb = getSupabase();
-      const { data, error: rpcError } = await sb.rpc('get_project_bundle', { p_project_id: project.id });
-      if (rpcError) throw new Error(`Erreur chargement bundle: ${rpcError.message}`);
-      if (!data) throw new Error('Bundle vide retourne par le serveur');
-      const raw = typeof data === 'string' ? JSON.parse(data) : data;
-      const manifestData = raw.manifest || raw.project?.manifest_config || raw.project?.manifest;
-      const files: BundleFile[] = raw.files || [];
-      const manifest = validateManifest(manifestData);
-      const { codeJs, uiHtml } = extractBundleFiles(files);
-      const parsed: ParsedBundle = { manifest, codeJs, uiHtml, files };
+      const parsed = await loadBundle(project.id, devServerUrl);
       setBundle(parsed); setLoading(false);
       sendToPlugin({ type: 'STORE_LAST_PROJECT', payload: { projectId: project.id } });
-      return true;
+      return parsed;
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Erreur reseau';
-      setError(message); setLoading(false); setSelectedProject(null);
-      return false;
+      setError(message); setLoading(false); setSelectedProject(null); setFailedProject(project);
+      return null;
+    }
+  }, []);
+
+  const loadFromCache = useCallback(async (project: Project, loadCached: (projectId: string) => Promise<ParsedBundle>): Promise<ParsedBundle | null> => {
+    setLoading(true); setError(null); setFailedProject(null); setSelectedProject(project); setBundle(null);
+    try {
+      const parsed = await loadCached(project.id);
+      setBundle(parsed); setLoading(false);
+      return parsed;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Cache illisible';
+      setError(`Version en cache: ${message}`); setLoading(false); setSelectedProject(null);
+      return null;
+    }
+  }, []);
+
+  const loadLocal = useCallback(async (source: DataTransfer | File[]): Promise<LocalPlugin | null> => {
+    setLoading(true); setError(null); setFailedProject(null); setBundle(null);
+    try {
+      const { bundle: parsed, skipped } = parseLocalBundle(await readLocalFiles(source));
+      if (skipped.length > 0) console.warn(`[useBundle] Fichiers binaires ignores: ${skipped.join(', ')}`);
+      const pluginId = typeof parsed.manifest.id === 'string' && parsed.manifest.id ? parsed.manifest.id : parsed.manifest.name;
+      // Same plugin dropped again: same project, so it replaces its session
+      const project: Project = {
+        id: `local:${pluginId}`,
+        name: parsed.manifest.name,
+        description: 'Plugin local',
+        status: 'ready',
+        updated_at: new Date().toISOString(),
+      };
+      setBundle(parsed); setSelectedProject(project); setLoading(false);
+      return { project, bundle: parsed };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Lecture des fichiers impossible';
+      setError(`Plugin local: ${message}`); setLoading(false); setSelectedProject(null);
+      return null;
     }
   }, []);
 
-  const reset = useCallback(() => { setBundle(null); setSelectedProject(null); setError(null); setLoading(false); }, []);
-  const clearError = useCallback(() => setError(null), []);
+  const reset = useCallback(() => { setBundle(null); setSelectedProject(null); setError(null); setFailedProject(null); setLoading(false); }, []);
+  const clearError = useCallback(() => { setError(null); setFailedProject(null); }, []);
 
-  return { bundle, selectedProject, loading, error, load, reset, clearError };
+  return { bundle, selectedProject, loading, error, failedProject, load, loadFromCache, loadLocal, reset, clearError };
 }
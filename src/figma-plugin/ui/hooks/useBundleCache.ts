@@ -0,0 +1,103 @@
+// ============================================================
+// useBundleCache.ts - Offline bundle cache kept by code.js
+//
+// Bundles loaded from Supabase are sent to bundle-cache.service.ts
+// (figma.clientStorage); when the get_project_bundle RPC fails, the
+// last cached version of the project can be run instead. A load that
+// code.js does not answer within CACHE_LOAD_TIMEOUT_MS is rejected.
+// ============================================================
+
+import { useState, useCallback, useRef } from 'preact/hooks';
+import type { ParsedBundle, Project } from '../../plugin/types/runner.types';
+import type { CachedBundleInfo, PluginMessage } from '../../plugin/types/messages.types';
+import { parseBundle } from '../lib/bundle-loader';
+import { sendToPlugin } from './useMessaging';
+
+interface UseBundleCacheReturn {
+  /** Cached versions of every project, newest first */
+  entries: CachedBundleInfo[];
+  refresh: () => void;
+  store: (project: Project, bundle: ParsedBundle) => void;
+  /** Last cached version of a project, rejects when there is none */
+  loadCached: (projectId: string) => Promise<ParsedBundle>;
+  handlePluginMessage: (msg: PluginMessage) => boolean;
+}
+
+const CACHE_LOAD_TIMEOUT_MS = 15_000;
+
+type PendingLoad = { resolve: (bundle: ParsedBundle) => void; reject: (err: Error) => void };
+
+export function useBundleCache(): UseBundleCacheReturn {
+  const [entries, setEntries] = useState<CachedBundleInfo[]>([]);
+  const pendingRef = useRef(new Map<string, PendingLoad[]>());
+
+  const refresh = useCallback(() => {
+    sendToPlugin({ type: 'GET_BUNDLE_CACHE' });
+  }, []);
+
+  const store = useCallback((project: Project, bundle: ParsedBundle) => {
+    sendToPlugin({
+      type: 'CACHE_BUNDLE',
+      payload: {
+        projectId: project.id,
+        version: bundle.version,
+        name: project.name,
+        bundle: { manifest: bundle.manifest, files: bundle.files },
+      },
+    });
+  }, []);
+
+  const loadCached = useCallback((projectId: string): Promise<ParsedBundle> => {
+    return new Promise<ParsedBundle>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const pending = pendingRef.current.get(projectId);
+        const index = pending ? pending.indexOf(load) : -1;
+        if (index === -1) return;
+        pending!.splice(index, 1);
+        if (pending!.length === 0) pendingRef.current.delete(projectId);
+        reject(new Error('Le cache des bundles ne repond pas'));
+      }, CACHE_LOAD_TIMEOUT_MS);
+      const load: PendingLoad = {
+        resolve: (bundle) => { clearTimeout(timer); resolve(bundle); },
+        reject: (err) => { clearTimeout(timer); reject(err); },
+      };
+      const pending = pendingRef.current.get(projectId) ?? [];
+      pending.push(load);
+      pendingRef.current.set(projectId, pending);
+      if (pending.length === 1) sendToPlugin({ type: 'GET_CACHED_BUNDLE', payload: { projectId } });
+    });
+  }, []);
+
+  const handlePluginMessage = useCallback((msg: PluginMessage): boolean => {
+    if (msg.type === 'BUNDLE_CACHE_DATA') {
+      setEntries(msg.payload.entries.slice().sort((a, b) => b.cachedAt - a.cachedAt));
+      return true;
+    }
+    if (msg.type === 'CACHED_BUNDLE_DATA') {
+      const { projectId, bundle, error } = msg.payload;
+      const pending = pendingRef.current.get(projectId) ?? [];
+      pendingRef.current.delete(projectId);
+      for (const { resolve, reject } of pending) {
+        if (error) {
+          reject(new Error(`Lecture du cache impossible: ${error}`));
+          continue;
+        }
+        if (!bundle) {
+          reject(new Error('Aucune version en cache pour ce projet'));
+          continue;
+        }
+        try {
+          resolve(parseBundle(bundle));
+        } catch (err) {
+          reject(err instanceof Error ? err : new Error(String(err)));
+        }
+      }
+      // get() refreshed lastUsedAt
+      refresh();
+      return true;
+    }
+    return false;
+  }, [refresh]);
+
+  return { entries, refresh, store, loadCached, handlePluginMessage };
+}
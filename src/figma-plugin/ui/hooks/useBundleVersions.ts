@@ -0,0 +1,66 @@
+// ============================================================
+// useBundleVersions.ts - Saved versions of a project bundle
+//
+// Versions never change once saved: a fetched version is kept for
+// the session, so switching between runs and diffs is instant.
+// ============================================================
+
+import { useState, useCallback, useEffect, useRef } from 'preact/hooks';
+import type { BundleVersion, ParsedBundle } from '../../plugin/types/runner.types';
+import { fetchBundleVersion, listBundleVersions, VERSIONS_UNAVAILABLE } from '../lib/bundle-loader';
+
+// Shared by every session: the backend lacks the RPCs for all projects
+let versionsAvailable = true;
+
+interface UseBundleVersionsReturn {
+  /** Newest first, null until first listed */
+  versions: BundleVersion[] | null;
+  loading: boolean;
+  error: string | null;
+  /**
+   * False when the backend was found to lack the version RPCs before
+   * this session opened: its panel is hidden, while the session that
+   * found out keeps the explanation in its panel
+   */
+  available: boolean;
+  refresh: () => Promise<void>;
+  load: (versionId: string) => Promise<ParsedBundle>;
+}
+
+export function useBundleVersions(projectId: string): UseBundleVersionsReturn {
+  const [versions, setVersions] = useState<BundleVersion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [available] = useState(versionsAvailable);
+  const bundlesRef = useRef(new Map<string, Promise<ParsedBundle>>());
+
+  useEffect(() => {
+    setVersions(null);
+    setError(null);
+    bundlesRef.current.clear();
+  }, [projectId]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true); setError(null);
+    try {
+      setVersions(await listBundleVersions(projectId));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur reseau';
+      if (message === VERSIONS_UNAVAILABLE) versionsAvailable = false;
+      setError(message);
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  const load = useCallback((versionId: string): Promise<ParsedBundle> => {
+    const cached = bundlesRef.current.get(versionId);
+    if (cached) return cached;
+    const pending = fetchBundleVersion(projectId, versionId);
+    bundlesRef.current.set(versionId, pending);
+    // A failed fetch is retried on the next load
+    pending.catch(() => bundlesRef.current.delete(versionId));
+    return pending;
+  }, [projectId]);
+
+  return { versions, loading, error, available, refresh, load };
+}
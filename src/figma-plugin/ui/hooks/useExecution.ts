@@ -1,27 +1,145 @@
 // ============================================================
 // useExecution.ts - Manage execution + plugin UI state (US-RUN-04/05/06/07)
+//
+// One hook per execution session: several sessions can run side by
+// side, each keeps only the messages of its own executionId.
+//
+// Errors left unhandled in the Runner window have no executionId: a
+// single pair of window listeners, shared by the sessions, logs each
+// of them once, in the visible session when it has a live run, else
+// in the run started last.
 // ============================================================
 
 import { useState, useCallback, useRef, useEffect } from 'preact/hooks';
-import type { Ref } from 'preact';
-import type { ExecutionStatus, LogEntry, PluginUIState } from '../../plugin/types/runner.types';
-import { DEFAULT_PLUGIN_UI } from '../../plugin/types/runner.types';
-import type { PluginMessage } from '../../plugin/types/messages.types';
+import type { RefObject } from 'preact';
+import type { BundleDiagnostic, DryRunReadMode, ExecutionStatus, LogEntry, ManifestParameter, ParsedBundle, PluginCommand, PluginUIState, RevertState, TraceEntry } from '../../plugin/types/runner.types';
+import { DEFAULT_PLUGIN_UI, DEFAULT_REVERT_STATE } from '../../plugin/types/runner.types';
+import type { ApiProfile, JournalSummary, ListenerInfo, ParameterSuggestion, PluginMessage, PluginNotification } from '../../plugin/types/messages.types';
 import { sendToPlugin } from './useMessaging';
-import * as logsStreamer from '../lib/logs-streamer';
+import { createLogsStream } from '../lib/logs-streamer';
+import type { LogsStream } from '../lib/logs-streamer';
 import { executeProxyFetch } from '../lib/proxy-fetch';
+import { transpileBundle } from '../lib/transpiler';
+
+export interface StartOptions {
+  idleTimeoutMs?: number;
+  /** Record figma API calls instead of changing the document */
+  dryRun?: DryRunReadMode;
+  /** Manifest menu command to run, the unnamed command by default */
+  command?: PluginCommand;
+  /** Plugin UI size to keep instead of the figma.showUI() one (hot reload) */
+  uiSize?: { width: number; height: number };
+  /** Stream logs to the project on Supabase (default true) */
+  streamLogs?: boolean;
+}
+
+/** Answer of the plugin's figma.parameters input handler for a query */
+export interface ParameterSuggestions {
+  key: string;
+  query: string;
+  suggestions: ParameterSuggestion[];
+  error?: string;
+  loadingMessage?: string;
+}
+
+interface UnhandledErrorSink {
+  /** Visible session */
+  active: boolean;
+  /** Start time of the live run, null without one */
+  startedAt: () => number | null;
+  log: (entry: LogEntry) => void;
+}
+
+const unhandledSinks = new Set<UnhandledErrorSink>();
+
+function reportUnhandled(entry: LogEntry): void {
+  let target: UnhandledErrorSink | null = null;
+  for (const sink of unhandledSinks) {
+    const startedAt = sink.startedAt();
+    if (startedAt === null) continue;
+    if (sink.active) {
+      target = sink;
+      break;
+    }
+    if (!target || startedAt > (target.startedAt() as number)) target = sink;
+  }
+  target?.log(entry);
+}
+
+function handleWindowError(event: ErrorEvent): void {
+  reportUnhandled({
+    level: 'error',
+    message: `[Unhandled Error] ${event.message || 'Unknown error'}`,
+    timestamp: Date.now(),
+    source: 'unhandled',
+    stackTrace: event.error?.stack || `at ${event.filename}:${event.lineno}:${event.colno}`,
+  });
+}
+
+function handleWindowRejection(event: PromiseRejectionEvent): void {
+  const reason = event.reason;
+  reportUnhandled({
+    level: 'error',
+    message: `[Unhandled Rejection] ${reason instanceof Error ? reason.message : String(reason)}`,
+    timestamp: Date.now(),
+    source: 'unhandled',
+    stackTrace: reason instanceof Error ? reason.stack : undefined,
+  });
+}
+
+function subscribeUnhandled(sink: UnhandledErrorSink): () => void {
+  if (unhandledSinks.size === 0) {
+    window.addEventListener('error', handleWindowError);
+    window.addEventListener('unhandledrejection', handleWindowRejection);
+  }
+  unhandledSinks.add(sink);
+  return () => {
+    unhandledSinks.delete(sink);
+    if (unhandledSinks.size === 0) {
+      window.removeEventListener('error', handleWindowError);
+      window.removeEventListener('unhandledrejection', handleWindowRejection);
+    }
+  };
+}
 
 interface UseExecutionReturn {
   status: ExecutionStatus;
   executionId: string | null;
   logs: LogEntry[];
   duration: number | null;
+  /** Duration of the top-level script when the plugin kept a session open */
+  scriptDuration: number | null;
   error: string | null;
+  diagnostics: BundleDiagnostic[];
   pluginUI: PluginUIState;
-  pluginIframeRef: Ref<HTMLIFrameElement>;
-  start: (codeJs: string, uiHtml: string, projectId: string) => void;
+  pluginIframeRef: RefObject<HTMLIFrameElement>;
+  journal: JournalSummary | null;
+  revertState: RevertState;
+  /** figma API usage of the last run, once it is over */
+  profile: ApiProfile | null;
+  /** figma.on() listeners currently registered by the plugin */
+  listeners: ListenerInfo[];
+  /** setTimeout / setInterval / requestAnimationFrame still pending in plugin code */
+  pendingTimers: number;
+  /** Read mode of the current run when it is a dry run */
+  dryRun: DryRunReadMode | null;
+  trace: TraceEntry[];
+  /** Trace entries dropped past the executor limit */
+  traceDropped: number;
+  /** figma.notify() toasts currently shown */
+  notifications: PluginNotification[];
+  dismissNotification: (notificationId: string) => void;
+  runNotificationAction: (notificationId: string) => void;
+  /** Parameters of the command still to be entered, null once the `run` event is fired */
+  parameterRequest: ManifestParameter[] | null;
+  parameterSuggestions: ParameterSuggestions | null;
+  queryParameter: (key: string, query: string, values: Record<string, unknown>) => void;
+  submitParameters: (values: Record<string, unknown>) => void;
+  start: (bundle: ParsedBundle, projectId: string, options?: StartOptions) => void;
   stop: () => void;
+  revert: () => void;
   reset: () => void;
+  /** Returns true when the message belongs to this session */
   handlePluginMessage: (msg: PluginMessage) => boolean;
   sendToPluginIframe: (data: unknown) => void;
   setSupabaseUrl: (url: string) => void;
@@ -29,44 +147,168 @@ interface UseExecutionReturn {
 
 const MAX_LOGS = 1000;
 
-export function useExecution(): UseExecutionReturn {
+/** `active`: the session is the visible tab (unhandled Runner errors) */
+export function useExecution(active: boolean): UseExecutionReturn {
   const [status, setStatus] = useState<ExecutionStatus>('idle');
   const [executionId, setExecutionId] = useState<string | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [duration, setDuration] = useState<number | null>(null);
+  const [scriptDuration, setScriptDuration] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<BundleDiagnostic[]>([]);
   const [pluginUI, setPluginUI] = useState<PluginUIState>(DEFAULT_PLUGIN_UI);
   const pluginIframeRef = useRef<HTMLIFrameElement>(null);
+  const [journal, setJournal] = useState<JournalSummary | null>(null);
+  const [revertState, setRevertState] = useState<RevertState>(DEFAULT_REVERT_STATE);
+  const [profile, setProfile] = useState<ApiProfile | null>(null);
+  const [listeners, setListeners] = useState<ListenerInfo[]>([]);
+  const [pendingTimers, setPendingTimers] = useState(0);
+  const [dryRun, setDryRun] = useState<DryRunReadMode | null>(null);
+  const [trace, setTrace] = useState<TraceEntry[]>([]);
+  const [traceDropped, setTraceDropped] = useState(0);
+  const [notifications, setNotifications] = useState<PluginNotification[]>([]);
+  const [parameterRequest, setParameterRequest] = useState<ManifestParameter[] | null>(null);
+  const [parameterSuggestions, setParameterSuggestions] = useState<ParameterSuggestions | null>(null);
+  // Parameters of the command being started, requested once EXECUTION_STARTED arrives
+  const pendingParametersRef = useRef<ManifestParameter[] | null>(null);
+  // Size applied to the first figma.showUI() of the run
+  const keptUISizeRef = useRef<{ width: number; height: number } | null>(null);
 
+  // Live execution (null once it is over) / execution whose messages this
+  // session keeps, until the next start or reset (journal, revert...)
   const executionIdRef = useRef<string | null>(null);
-  const projectIdRef = useRef<string | null>(null);
+  const sessionExecutionIdRef = useRef<string | null>(null);
+  const startedAtRef = useRef(0);
+  // Set between start() and EXECUTION_STARTED
+  const startingProjectIdRef = useRef<string | null>(null);
   const supabaseUrlRef = useRef<string>('');
+  const streamLogsRef = useRef(true);
+  const logsStreamRef = useRef<LogsStream | null>(null);
+  // In-flight proxied fetches, by request id
+  const proxyFetchesRef = useRef(new Map<string, AbortController>());
+
+  const stopLogsStream = useCallback(() => {
+    logsStreamRef.current?.stop();
+    logsStreamRef.current = null;
+  }, []);
 
-  const start = useCallback((codeJs: string, uiHtml: string, projectId: string) => {
+  const start = useCallback((bundle: ParsedBundle, projectId: string, options: StartOptions = {}) => {
     setStatus('loading');
     setLogs([]);
     setDuration(null);
+    setScriptDuration(null);
     setError(null);
     setExecutionId(null);
     setPluginUI(DEFAULT_PLUGIN_UI);
-    projectIdRef.current = projectId;
-    sendToPlugin({ type: 'EXECUTE_PLUGIN', payload: { codeJs, uiHtml, projectId } });
-  }, []);
+    setJournal(null);
+    setRevertState(DEFAULT_REVERT_STATE);
+    setProfile(null);
+    setListeners([]);
+    setPendingTimers(0);
+    setDryRun(options.dryRun ?? null);
+    setTrace([]);
+    setTraceDropped(0);
+    setNotifications([]);
+    setParameterRequest(null);
+    setParameterSuggestions(null);
+    pendingParametersRef.current = options.command?.parameters ?? null;
+    keptUISizeRef.current = options.uiSize ?? null;
+    streamLogsRef.current = options.streamLogs !== false;
+    stopLogsStream();
+    executionIdRef.current = null;
+    sessionExecutionIdRef.current = null;
+    startingProjectIdRef.current = projectId;
+
+    // .ts/.tsx/.jsx sources are transpiled here, code.js only evaluates JS
+    const { files, diagnostics: transpileDiagnostics } = transpileBundle(bundle.files);
+    setDiagnostics(transpileDiagnostics);
+    if (transpileDiagnostics.length > 0) {
+      const count = transpileDiagnostics.length;
+      setError(`Transpilation echouee: ${count} erreur${count > 1 ? 's' : ''}`);
+      setStatus('error');
+      startingProjectIdRef.current = null;
+      return;
+    }
+
+    sendToPlugin({
+      type: 'EXECUTE_PLUGIN',
+      payload: {
+        projectId,
+        mainPath: bundle.mainPath,
+        uiHtml: bundle.uiHtml,
+        uiFiles: bundle.uiFiles,
+        files,
+        networkAccess: bundle.manifest.networkAccess ?? null,
+        idleTimeoutMs: options.idleTimeoutMs,
+        dryRun: options.dryRun,
+        command: options.command?.command ?? '',
+        parameters: options.command?.parameters ?? null,
+      },
+    });
+  }, [stopLogsStream]);
 
   const stop = useCallback(() => {
-    sendToPlugin({ type: 'STOP_EXECUTION' });
+    const eid = executionIdRef.current;
+    if (eid) sendToPlugin({ type: 'STOP_EXECUTION', payload: { executionId: eid } });
   }, []);
 
+  const revert = useCallback(() => {
+    if (!executionId) return;
+    setRevertState({ ...DEFAULT_REVERT_STATE, pending: true });
+    sendToPlugin({ type: 'REVERT_EXECUTION', payload: { executionId } });
+  }, [executionId]);
+
   const reset = useCallback(() => {
-    logsStreamer.stopStream();
+    stopLogsStream();
     executionIdRef.current = null;
-    projectIdRef.current = null;
+    sessionExecutionIdRef.current = null;
+    startingProjectIdRef.current = null;
     setStatus('idle');
     setExecutionId(null);
     setLogs([]);
     setDuration(null);
+    setScriptDuration(null);
     setError(null);
+    setDiagnostics([]);
     setPluginUI(DEFAULT_PLUGIN_UI);
+    setJournal(null);
+    setRevertState(DEFAULT_REVERT_STATE);
+    setProfile(null);
+    setListeners([]);
+    setPendingTimers(0);
+    setDryRun(null);
+    setTrace([]);
+    setTraceDropped(0);
+    setNotifications([]);
+    setParameterRequest(null);
+    setParameterSuggestions(null);
+    pendingParametersRef.current = null;
+    keptUISizeRef.current = null;
+  }, [stopLogsStream]);
+
+  const queryParameter = useCallback((key: string, query: string, values: Record<string, unknown>) => {
+    const eid = executionIdRef.current;
+    if (!eid) return;
+    sendToPlugin({ type: 'PARAMETER_INPUT', payload: { executionId: eid, key, query, parameters: values } });
+  }, []);
+
+  const submitParameters = useCallback((values: Record<string, unknown>) => {
+    const eid = executionIdRef.current;
+    setParameterRequest(null);
+    setParameterSuggestions(null);
+    if (!eid) return;
+    sendToPlugin({ type: 'SUBMIT_PARAMETERS', payload: { executionId: eid, parameters: values } });
+  }, []);
+
+  const dismissNotification = useCallback((notificationId: string) => {
+    setNotifications((prev) => prev.filter((n) => n.notificationId !== notificationId));
+  }, []);
+
+  const runNotificationAction = useCallback((notificationId: string) => {
+    const eid = sessionExecutionIdRef.current;
+    if (!eid) return;
+    // The toast closes on PLUGIN_NOTIFY_CANCEL, unless the action returns false
+    sendToPlugin({ type: 'NOTIFY_ACTION', payload: { executionId: eid, notificationId } });
   }, []);
 
   const sendToPluginIframe = useCallback((data: unknown) => {
@@ -81,59 +323,59 @@ export function useExecution(): UseExecutionReturn {
       const next = [...prev, entry];
       return next.length > MAX_LOGS ? next.slice(-MAX_LOGS) : next;
     });
-    logsStreamer.pushLog(entry);
+    logsStreamRef.current?.push(entry);
   }, []);
 
-  useEffect(() => {
-    const handleError = (event: ErrorEvent) => {
-      if (!executionIdRef.current) return;
-      const entry: LogEntry = {
-        level: 'error',
-        message: `[Unhandled Error] ${event.message || 'Unknown error'}`,
-        timestamp: Date.now(),
-        source: 'unhandled',
-        stackTrace: event.error?.stack || `at ${event.filename}:${event.lineno}:${event.colno}`,
-      };
-      addLog(entry);
-    };
-
-    const handleRejection = (event: PromiseRejectionEvent) => {
-      if (!executionIdRef.current) return;
-      const reason = event.reason;
-      const message = reason instanceof Error ? reason.message : String(reason);
-      const stack = reason instanceof Error ? reason.stack : undefined;
-      const entry: LogEntry = {
-        level: 'error',
-        message: `[Unhandled Rejection] ${message}`,
-        timestamp: Date.now(),
-        source: 'unhandled',
-        stackTrace: stack,
-      };
-      addLog(entry);
-    };
-
-    window.addEventListener('error', handleError);
-    window.addEventListener('unhandledrejection', handleRejection);
-    return () => {
-      window.removeEventListener('error', handleError);
-      window.removeEventListener('unhandledrejection', handleRejection);
-    };
-  }, [addLog]);
+  const unhandledSinkRef = useRef<UnhandledErrorSink>({
+    active,
+    startedAt: () => (executionIdRef.current ? startedAtRef.current : null),
+    log: addLog,
+  });
+  unhandledSinkRef.current.active = active;
+  useEffect(() => subscribeUnhandled(unhandledSinkRef.current), []);
+
+  // A closed session no longer receives PROXY_FETCH_ABORT for its requests
+  useEffect(() => () => {
+    proxyFetchesRef.current.forEach((controller) => controller.abort());
+    proxyFetchesRef.current.clear();
+  }, []);
 
   const handlePluginMessage = useCallback((msg: PluginMessage): boolean => {
+    // Sent for runs this session may have replaced since: matched by request
+    if (msg.type === 'PROXY_FETCH_ABORT') {
+      const controller = proxyFetchesRef.current.get(msg.payload.requestId);
+      if (!controller) return false;
+      proxyFetchesRef.current.delete(msg.payload.requestId);
+      controller.abort();
+      return true;
+    }
+
+    if (msg.type === 'EXECUTION_STARTED') {
+      if (msg.payload.projectId !== startingProjectIdRef.current) return false;
+      startingProjectIdRef.current = null;
+    } else {
+      const payload = (msg as { payload?: { executionId?: string } }).payload;
+      if (!payload?.executionId || payload.executionId !== sessionExecutionIdRef.current) return false;
+    }
+
     switch (msg.type) {
       case 'EXECUTION_STARTED': {
         const { executionId: eid, projectId: pid } = msg.payload;
         setExecutionId(eid);
         executionIdRef.current = eid;
+        sessionExecutionIdRef.current = eid;
+        startedAtRef.current = Date.now();
         setStatus('running');
         setLogs([]);
         setDuration(null);
+        setScriptDuration(null);
         setError(null);
+        setParameterRequest(pendingParametersRef.current);
+        pendingParametersRef.current = null;
 
         const url = supabaseUrlRef.current;
-        if (url && pid && eid) {
-          logsStreamer.startStream({ projectId: pid, executionId: eid, supabaseUrl: url });
+        if (url && pid && eid && streamLogsRef.current) {
+          logsStreamRef.current = createLogsStream({ projectId: pid, executionId: eid, supabaseUrl: url });
         }
         return true;
       }
@@ -145,24 +387,33 @@ export function useExecution(): UseExecutionReturn {
           timestamp: msg.payload.timestamp,
           source: msg.payload.source,
           stackTrace: msg.payload.stackTrace,
+          stackFrames: msg.payload.stackFrames,
         };
         addLog(entry);
         return true;
       }
 
+      case 'EXECUTION_SCRIPT_DONE':
+        // Top-level code finished but the plugin UI keeps the session running
+        setScriptDuration(msg.payload.duration);
+        return true;
+
       case 'EXECUTION_DONE':
         setDuration(msg.payload.duration);
-        if (msg.payload.duration === -1) {
-          setStatus('stopped');
-          executionIdRef.current = null;
-          logsStreamer.stopStream();
-        } else {
-          setStatus('done');
-        }
+        setParameterRequest(null);
+        setListeners([]);
+        setPendingTimers(0);
+        setStatus(msg.payload.duration === -1 ? 'stopped' : 'done');
+        // The plugin session is over either way: no more logs to stream
+        executionIdRef.current = null;
+        stopLogsStream();
         return true;
 
       case 'EXECUTION_ERROR':
         setError(msg.payload.message);
+        setParameterRequest(null);
+        setListeners([]);
+        setPendingTimers(0);
         setStatus('error');
         executionIdRef.current = null;
         if (msg.payload.stack) {
@@ -172,20 +423,53 @@ export function useExecution(): UseExecutionReturn {
             timestamp: Date.now(),
             source: 'error',
             stackTrace: msg.payload.stack,
+            stackFrames: msg.payload.stackFrames,
           });
         }
-        logsStreamer.stopStream();
+        stopLogsStream();
+        return true;
+
+      case 'EXECUTION_LISTENERS':
+        setListeners(msg.payload.listeners);
+        return true;
+
+      case 'EXECUTION_TIMERS':
+        setPendingTimers(msg.payload.pending);
         return true;
 
-      case 'PLUGIN_SHOW_UI':
+      case 'EXECUTION_JOURNAL':
+        setJournal(msg.payload.summary);
+        return true;
+
+      case 'EXECUTION_PROFILE':
+        setProfile(msg.payload.profile);
+        return true;
+
+      case 'EXECUTION_REVERTED':
+        setRevertState({
+          pending: false,
+          result: msg.payload.result ?? null,
+          error: msg.payload.error ?? null,
+        });
+        return true;
+
+      case 'DRY_RUN_TRACE':
+        setTrace((prev) => prev.concat(msg.payload.entries));
+        setTraceDropped(msg.payload.dropped);
+        return true;
+
+      case 'PLUGIN_SHOW_UI': {
+        const size = keptUISizeRef.current ?? msg.payload;
+        keptUISizeRef.current = null;
         setPluginUI({
           visible: msg.payload.visible,
           html: msg.payload.html,
-          width: msg.payload.width,
-          height: msg.payload.height,
+          width: size.width,
+          height: size.height,
           title: msg.payload.title,
         });
         return true;
+      }
 
       case 'PLUGIN_UI_POST_MESSAGE':
         sendToPluginIframe(msg.payload.data);
@@ -199,11 +483,28 @@ export function useExecution(): UseExecutionReturn {
         setPluginUI(DEFAULT_PLUGIN_UI);
         return true;
 
+      case 'PLUGIN_NOTIFY':
+        setNotifications((prev) => [...prev, msg.payload]);
+        return true;
+
+      case 'PARAMETER_SUGGESTIONS':
+        setParameterSuggestions(msg.payload);
+        return true;
+
+      case 'PLUGIN_NOTIFY_CANCEL':
+        dismissNotification(msg.payload.notificationId);
+        return true;
+
       case 'PROXY_FETCH_REQUEST': {
         const url = supabaseUrlRef.current;
         if (url) {
-          executeProxyFetch(msg.payload, url).then((response) => {
-            sendToPlugin({ type: 'PROXY_FETCH_RESPONSE', payload: response });
+          const { requestId } = msg.payload;
+          const controller = new AbortController();
+          proxyFetchesRef.current.set(requestId, controller);
+          executeProxyFetch(msg.payload, url, controller.signal).then((response) => {
+            proxyFetchesRef.current.delete(requestId);
+            // code.js already rejected an aborted request
+            if (!controller.signal.aborted) sendToPlugin({ type: 'PROXY_FETCH_RESPONSE', payload: response });
           });
         } else {
           sendToPlugin({
@@ -225,7 +526,7 @@ export function useExecution(): UseExecutionReturn {
       default:
         return false;
     }
-  }, [sendToPluginIframe, addLog]);
+  }, [sendToPluginIframe, addLog, stopLogsStream, dismissNotification]);
 
   const setSupabaseUrl = useCallback((url: string) => {
     supabaseUrlRef.current = url;
@@ -236,11 +537,29 @@ export function useExecution(): UseExecutionReturn {
     executionId,
     logs,
     duration,
+    scriptDuration,
     error,
+    diagnostics,
     pluginUI,
     pluginIframeRef,
+    journal,
+    revertState,
+    profile,
+    listeners,
+    pendingTimers,
+    dryRun,
+    trace,
+    traceDropped,
+    notifications,
+    dismissNotification,
+    runNotificationAction,
+    parameterRequest,
+    parameterSuggestions,
+    queryParameter,
+    submitParameters,
     start,
     stop,
+    revert,
     reset,
     handlePluginMessage,
     sendToPluginIframe,
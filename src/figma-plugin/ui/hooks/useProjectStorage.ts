@@ -0,0 +1,51 @@
+// ============================================================
+// useProjectStorage.ts - Inspect / clear a project's clientStorage
+// ============================================================
+
+import { useState, useCallback, useEffect, useRef } from 'preact/hooks';
+import type { PluginMessage, StorageEntry } from '../../plugin/types/messages.types';
+import { sendToPlugin } from './useMessaging';
+
+interface UseProjectStorageReturn {
+  entries: StorageEntry[] | null;
+  loading: boolean;
+  refresh: () => void;
+  /** Deletes one key, or every key of the project when omitted */
+  clear: (key?: string) => void;
+  handlePluginMessage: (msg: PluginMessage) => boolean;
+}
+
+export function useProjectStorage(projectId: string | null): UseProjectStorageReturn {
+  const [entries, setEntries] = useState<StorageEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+
+  useEffect(() => {
+    setEntries(null);
+    setLoading(false);
+  }, [projectId]);
+
+  const refresh = useCallback(() => {
+    if (!projectId) return;
+    setLoading(true);
+    sendToPlugin({ type: 'GET_PROJECT_STORAGE', payload: { projectId } });
+  }, [projectId]);
+
+  const clear = useCallback((key?: string) => {
+    if (!projectId) return;
+    setLoading(true);
+    sendToPlugin({ type: 'CLEAR_PROJECT_STORAGE', payload: { projectId, key } });
+  }, [projectId]);
+
+  const handlePluginMessage = useCallback((msg: PluginMessage): boolean => {
+    if (msg.type !== 'PROJECT_STORAGE_DATA') return false;
+    if (msg.payload.projectId === projectIdRef.current) {
+      setEntries(msg.payload.entries);
+      setLoading(false);
+    }
+    return true;
+  }, []);
+
+  return { entries, loading, refresh, clear, handlePluginMessage };
+}
@@ -0,0 +1,164 @@
+// ============================================================
+// bundle-diff.ts - File-by-file diff between two bundle versions
+//
+// The manifest is compared as a `manifest.json` file, the other
+// files are matched by normalized path; the lines of a modified file
+// are diffed with an LCS over what remains once the common prefix and
+// suffix are trimmed (an edit usually touches a few places of a
+// file). Past MAX_LCS_CELLS the remaining block is shown as removed
+// then added, like a rewrite.
+// Runs in ui.html (has fetch, DOM, window).
+// ============================================================
+
+import type { ParsedBundle } from '../../plugin/types/runner.types';
+
+export type FileDiffStatus = 'added' | 'removed' | 'modified';
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+  /** 1-based line numbers, null on the side the line is absent from */
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  status: FileDiffStatus;
+  added: number;
+  removed: number;
+  hunks: DiffHunk[];
+}
+
+const CONTEXT_LINES = 3;
+const MAX_LCS_CELLS = 4_000_000;
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.?\/)+/, '');
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split(/\r?\n/);
+  // Trailing newline: no empty last line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/** Removed / added runs of a block with no common prefix nor suffix */
+function diffMiddle(a: string[], b: string[]): Array<'=' | '-' | '+'> {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map(() => '+');
+  if (m === 0) return a.map(() => '-');
+  if (n * m > MAX_LCS_CELLS) return [...a.map(() => '-' as const), ...b.map(() => '+' as const)];
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: Array<'=' | '-' | '+'> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) { ops.push('='); i++; j++; }
+    else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) { ops.push('-'); i++; }
+    else { ops.push('+'); j++; }
+  }
+  while (i++ < n) ops.push('-');
+  while (j++ < m) ops.push('+');
+  return ops;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: Array<'=' | '-' | '+'> = [
+    ...oldLines.slice(0, prefix).map(() => '=' as const),
+    ...diffMiddle(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)),
+    ...oldLines.slice(oldLines.length - suffix).map(() => '=' as const),
+  ];
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    if (op === '=') lines.push({ type: 'context', text: oldLines[i], oldLine: ++i, newLine: ++j });
+    else if (op === '-') lines.push({ type: 'removed', text: oldLines[i], oldLine: ++i, newLine: null });
+    else lines.push({ type: 'added', text: newLines[j], oldLine: null, newLine: ++j });
+  }
+  return lines;
+}
+
+/** Changed lines with CONTEXT_LINES of unchanged lines around them */
+function toHunks(lines: DiffLine[]): DiffHunk[] {
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.type === 'context') return;
+    const from = Math.max(index - CONTEXT_LINES, 0);
+    const to = Math.min(index + CONTEXT_LINES, lines.length - 1);
+    const last = ranges[ranges.length - 1];
+    // Overlapping or touching the previous change: same hunk
+    if (last && from <= last[1] + 1) last[1] = to;
+    else ranges.push([from, to]);
+  });
+  return ranges.map(([from, to]) => {
+    const hunkLines = lines.slice(from, to + 1);
+    return {
+      oldStart: hunkLines.find((l) => l.oldLine !== null)?.oldLine ?? 0,
+      newStart: hunkLines.find((l) => l.newLine !== null)?.newLine ?? 0,
+      lines: hunkLines,
+    };
+  });
+}
+
+function diffFile(path: string, oldContent: string | null, newContent: string | null): FileDiff | null {
+  if (oldContent === newContent) return null;
+  const lines = diffLines(splitLines(oldContent ?? ''), splitLines(newContent ?? ''));
+  const status: FileDiffStatus = oldContent === null ? 'added' : newContent === null ? 'removed' : 'modified';
+  return {
+    path,
+    status,
+    added: lines.filter((l) => l.type === 'added').length,
+    removed: lines.filter((l) => l.type === 'removed').length,
+    hunks: toHunks(lines),
+  };
+}
+
+function filesOf(bundle: Pick<ParsedBundle, 'manifest' | 'files'>): Map<string, string> {
+  const files = new Map(bundle.files.map((f) => [normalizePath(f.path), f.content]));
+  files.set('manifest.json', JSON.stringify(bundle.manifest, null, 2));
+  return files;
+}
+
+/** Changed files from `from` to `to`, in path order; unchanged files are left out */
+export function diffBundles(from: Pick<ParsedBundle, 'manifest' | 'files'>, to: Pick<ParsedBundle, 'manifest' | 'files'>): FileDiff[] {
+  const oldFiles = filesOf(from);
+  const newFiles = filesOf(to);
+  const paths = Array.from(new Set([...oldFiles.keys(), ...newFiles.keys()])).sort();
+  const diffs: FileDiff[] = [];
+  for (const path of paths) {
+    const diff = diffFile(path, oldFiles.get(path) ?? null, newFiles.get(path) ?? null);
+    if (diff) diffs.push(diff);
+  }
+  return diffs;
+}
@@ -0,0 +1,171 @@
+// ============================================================
+// bundle-loader.ts - Fetch, parse & validate a project bundle
+//
+// Shared by useBundle (project selection) and the hot reload of
+// execution sessions. `version` is a hash of the bundle content, so
+// two loads of the same code have the same version.
+//
+// `get_project_bundle` returns the latest bundle; the versions saved
+// before it are listed by `list_project_bundle_versions` (newest
+// first) and fetched by `get_project_bundle_version`. Both are
+// optional on the backend (signatures in README.md): without them
+// the versions panel says so instead of showing the RPC error.
+//
+// A project can also be loaded from a local dev server: any URL on
+// localhost serving the same { manifest, files } JSON as the
+// `get_project_bundle` RPC. It must match the devAllowedDomains of
+// the Runner manifest (manifest.json).
+// ============================================================
+
+import type { BundleFile, BundleVersion, ParsedBundle, ManifestConfig } from '../../plugin/types/runner.types';
+import { getSupabase } from './supabase';
+import { validateNetworkAccess, createNetworkPolicy } from '../../plugin/services/network-access.service';
+import { validateCommands } from '../../plugin/services/commands.service';
+
+export const DEFAULT_DEV_SERVER_URL = 'http://localhost:3000/bundle';
+
+// devAllowedDomains of manifest.json
+const devServerPolicy = createNetworkPolicy({
+  allowedDomains: ['none'],
+  devAllowedDomains: ['http://localhost:*', 'http://127.0.0.1:*'],
+});
+
+function isUiMap(ui: unknown): ui is Record<string, string> {
+  if (!ui || typeof ui !== 'object' || Array.isArray(ui)) return false;
+  const entries = Object.keys(ui as Record<string, unknown>);
+  return entries.length > 0 && entries.every((k) => typeof (ui as Record<string, unknown>)[k] === 'string');
+}
+
+export function validateManifest(raw: unknown): ManifestConfig {
+  if (!raw || typeof raw !== 'object') throw new Error('Manifest absent ou invalide');
+  const m = raw as Record<string, unknown>;
+  const missing: string[] = [];
+  if (!m.name || typeof m.name !== 'string') missing.push('name');
+  if (!m.main || typeof m.main !== 'string') missing.push('main');
+  if (missing.length > 0) throw new Error(`Manifest incomplet, champs manquants: ${missing.join(', ')}`);
+  // `ui` is optional: a plugin without UI only has `main`
+  const uiErrors = m.ui !== undefined && (!m.ui || (typeof m.ui !== 'string' && !isUiMap(m.ui)))
+    ? ['ui doit etre un chemin ou un objet { nom: chemin }']
+    : [];
+  const manifestErrors = [...uiErrors, ...validateNetworkAccess(m.networkAccess), ...validateCommands(m)];
+  if (manifestErrors.length > 0) throw new Error(`Manifest invalide: ${manifestErrors.join('; ')}`);
+  return m as unknown as ManifestConfig;
+}
+
+function normalizeBundlePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.?\/)+/, '');
+}
+
+function findBundleFile(files: BundleFile[], path: string, field: string): BundleFile {
+  const wanted = normalizeBundlePath(path);
+  const file = files.find((f) => normalizeBundlePath(f.path) === wanted);
+  if (!file) throw new Error(`Fichier ${path} (manifest.${field}) introuvable dans le bundle`);
+  if (!file.content.trim()) throw new Error(`${path} (manifest.${field}) est vide`);
+  return file;
+}
+
+function extractBundleFiles(
+  files: BundleFile[],
+  manifest: ManifestConfig,
+): Pick<ParsedBundle, 'mainPath' | 'codeJs' | 'uiHtml' | 'uiFiles'> {
+  const codeFile = findBundleFile(files, manifest.main, 'main');
+
+  if (manifest.ui === undefined) {
+    return { mainPath: codeFile.path, codeJs: codeFile.content, uiHtml: null, uiFiles: null };
+  }
+
+  if (typeof manifest.ui === 'string') {
+    const uiFile = findBundleFile(files, manifest.ui, 'ui');
+    return { mainPath: codeFile.path, codeJs: codeFile.content, uiHtml: uiFile.content, uiFiles: null };
+  }
+
+  const uiFiles: Record<string, string> = {};
+  for (const key of Object.keys(manifest.ui)) {
+    uiFiles[key] = findBundleFile(files, manifest.ui[key], `ui.${key}`).content;
+  }
+  return { mainPath: codeFile.path, codeJs: codeFile.content, uiHtml: null, uiFiles };
+}
+
+/** FNV-1a over the manifest and every file, as 8 hex digits */
+export function hashBundle(manifest: unknown, files: BundleFile[]): string {
+  let hash = 0x811c9dc5;
+  const chunks = [JSON.stringify(manifest ?? null)];
+  for (const file of files) chunks.push(file.path, file.content);
+  // NUL between chunks: moving text from a path to a content changes the hash
+  const text = chunks.join('\0');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function parseBundle(raw: any): ParsedBundle {
+  const manifestData = raw.manifest || raw.project?.manifest_config || raw.project?.manifest;
+  const files: BundleFile[] = raw.files || [];
+  const manifest = validateManifest(manifestData);
+  return { manifest, ...extractBundleFiles(files, manifest), files, version: hashBundle(manifestData, files) };
+}
+
+export async function fetchProjectBundle(projectId: string): Promise<ParsedBundle> {
+  const sb = getSupabase();
+  const { data, error: rpcError } = await sb.rpc('get_project_bundle', { p_project_id: projectId });
+  if (rpcError) throw new Error(`Erreur chargement bundle: ${rpcError.message}`);
+  if (!data) throw new Error('Bundle vide retourne par le serveur');
+  return parseBundle(typeof data === 'string' ? JSON.parse(data) : data);
+}
+
+// PostgREST: "Could not find the function ... in the schema cache"
+const RPC_NOT_FOUND = 'PGRST202';
+
+export const VERSIONS_UNAVAILABLE = 'Historique des versions non disponible: le serveur ne fournit pas list_project_bundle_versions / get_project_bundle_version';
+
+export async function listBundleVersions(projectId: string): Promise<BundleVersion[]> {
+  const sb = getSupabase();
+  const { data, error: rpcError } = await sb.rpc('list_project_bundle_versions', { p_project_id: projectId });
+  if (rpcError?.code === RPC_NOT_FOUND) throw new Error(VERSIONS_UNAVAILABLE);
+  if (rpcError) throw new Error(`Erreur chargement versions: ${rpcError.message}`);
+  const rows: any[] = Array.isArray(data) ? data : [];
+  return rows.map((row) => ({ id: String(row.id), createdAt: row.created_at, label: row.label ?? null }));
+}
+
+export async function fetchBundleVersion(projectId: string, versionId: string): Promise<ParsedBundle> {
+  const sb = getSupabase();
+  const { data, error: rpcError } = await sb.rpc('get_project_bundle_version', { p_project_id: projectId, p_version_id: versionId });
+  if (rpcError?.code === RPC_NOT_FOUND) throw new Error(VERSIONS_UNAVAILABLE);
+  if (rpcError) throw new Error(`Erreur chargement version: ${rpcError.message}`);
+  if (!data) throw new Error('Version introuvable');
+  return parseBundle(typeof data === 'string' ? JSON.parse(data) : data);
+}
+
+/** Error message for a dev server URL the Runner cannot reach, null when valid */
+export function validateDevServerUrl(url: string): string | null {
+  const verdict = devServerPolicy.check(url.trim());
+  if (verdict === 'invalid') return `URL invalide: ${url}`;
+  if (verdict !== 'dev-only') return 'Le serveur local doit etre sur localhost ou 127.0.0.1';
+  return null;
+}
+
+/** Raw { manifest, files } JSON served by a local dev server */
+export async function fetchDevServerJson(url: string): Promise<any> {
+  const invalid = validateDevServerUrl(url);
+  if (invalid) throw new Error(invalid);
+  let response: Response;
+  try {
+    response = await fetch(url.trim(), { cache: 'no-store' });
+  } catch {
+    throw new Error(`Serveur local injoignable: ${url}`);
+  }
+  if (!response.ok) throw new Error(`Serveur local: HTTP ${response.status}`);
+  try {
+    return await response.json();
+  } catch {
+    throw new Error('Le serveur local doit renvoyer du JSON { manifest, files }');
+  }
+}
+
+/** Bundle of a project, from its dev server when one is set, from Supabase otherwise */
+export async function loadBundle(projectId: string, devServerUrl: string | null): Promise<ParsedBundle> {
+  if (!devServerUrl) return fetchProjectBundle(projectId);
+  return parseBundle(await fetchDevServerJson(devServerUrl));
+}
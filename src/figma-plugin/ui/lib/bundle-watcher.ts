@@ -0,0 +1,104 @@
+// ============================================================
+// bundle-watcher.ts - Watch a project's bundle for new versions
+//
+// Supabase: Vibe Code Studio touches `projects.updated_at` when it
+// saves a project and may broadcast `bundle_updated` on the same
+// channel. Bursts of changes (several files saved at once) are
+// debounced into a single onChange.
+//
+// Local dev server: no push channel, the bundle URL is polled and
+// onChange fires when its content hash changes.
+// Runs in ui.html (has fetch, DOM, window).
+// ============================================================
+
+import { getSupabase } from './supabase';
+import { fetchDevServerJson, hashBundle } from './bundle-loader';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+const DEBOUNCE_MS = 800;
+const POLL_INTERVAL_MS = 2_000;
+
+interface WatchConfig {
+  onChange: () => void;
+  /** Realtime channel subscribed / dev server reachable, for the session indicator */
+  onConnectedChange?: (connected: boolean) => void;
+}
+
+export interface BundleWatcher {
+  stop: () => void;
+}
+
+export function watchProjectBundle(config: WatchConfig & { projectId: string }): BundleWatcher {
+  let channel: RealtimeChannel | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const trigger = () => {
+    if (stopped) return;
+    if (debounceTimer !== null) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      if (!stopped) config.onChange();
+    }, DEBOUNCE_MS);
+  };
+
+  try {
+    const sb = getSupabase();
+    const channelName = `project:${config.projectId}:bundle`;
+    channel = sb.channel(channelName)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'projects', filter: `id=eq.${config.projectId}` }, trigger)
+      .on('broadcast', { event: 'bundle_updated' }, trigger);
+    channel.subscribe((status: string) => {
+      if (stopped) return;
+      if (status === 'SUBSCRIBED') { config.onConnectedChange?.(true); console.log(`[bundle-watcher] Channel ${channelName} subscribed`); }
+      else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') config.onConnectedChange?.(false);
+    });
+  } catch (err) { console.warn('[bundle-watcher] Failed to open Realtime channel:', err); channel = null; }
+
+  return {
+    stop(): void {
+      if (stopped) return;
+      stopped = true;
+      if (debounceTimer !== null) { clearTimeout(debounceTimer); debounceTimer = null; }
+      if (channel) { try { getSupabase().removeChannel(channel); } catch {} channel = null; }
+    },
+  };
+}
+
+export function pollDevServer(config: WatchConfig & { url: string }): BundleWatcher {
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastVersion: string | null = null;
+  let connected: boolean | null = null;
+  let stopped = false;
+
+  const setConnected = (value: boolean) => {
+    if (connected === value) return;
+    connected = value;
+    config.onConnectedChange?.(value);
+  };
+
+  // Chained timeouts: a slow dev server never gets overlapping requests
+  const poll = async () => {
+    try {
+      const raw = await fetchDevServerJson(config.url);
+      if (stopped) return;
+      setConnected(true);
+      // Hashed unvalidated: a broken manifest is reported by the reload
+      const version = hashBundle(raw?.manifest, Array.isArray(raw?.files) ? raw.files : []);
+      if (lastVersion !== null && version !== lastVersion) config.onChange();
+      lastVersion = version;
+    } catch {
+      if (stopped) return;
+      setConnected(false);
+    }
+    pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+  };
+  poll();
+
+  return {
+    stop(): void {
+      stopped = true;
+      if (pollTimer !== null) { clearTimeout(pollTimer); pollTimer = null; }
+    },
+  };
+}
@@ -0,0 +1,146 @@
+// ============================================================
+// local-bundle.ts - ParsedBundle from dropped files or a .zip
+//
+// "Run local plugin" takes a plugin build that has no Studio
+// project: a folder (drag & drop or folder picker) or a .zip. The
+// directory holding manifest.json becomes the bundle root, then the
+// bundle goes through the same checks as a Supabase one
+// (bundle-loader.ts). Binary files (images, fonts) are left out:
+// plugin code only reads the text files of a bundle.
+// Runs in ui.html (has fetch, DOM, window).
+// ============================================================
+
+import type { BundleFile, ParsedBundle } from '../../plugin/types/runner.types';
+import { parseBundle } from './bundle-loader';
+import { readZip } from './zip-reader';
+
+const MAX_FILES = 500;
+const MAX_TOTAL_SIZE = 20 * 1024 * 1024; // 20MB
+// OS and tooling leftovers, never part of a plugin
+const IGNORED_PATH = /(^|\/)(__MACOSX|node_modules|\.git)(\/|$)|(^|\/)(\.DS_Store|Thumbs\.db)$/;
+const ZIP_LIMITS = { maxFiles: MAX_FILES, maxTotalSize: MAX_TOTAL_SIZE, ignore: (path: string) => IGNORED_PATH.test(path) };
+
+const LANGUAGES: Record<string, string> = {
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'javascriptreact',
+  ts: 'typescript', mts: 'typescript', cts: 'typescript', tsx: 'typescriptreact',
+  html: 'html', htm: 'html', css: 'css', json: 'json', svg: 'svg', md: 'markdown',
+};
+
+interface LocalFile {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface LocalBundle {
+  bundle: ParsedBundle;
+  /** Files left out of the bundle because they are not text */
+  skipped: string[];
+}
+
+function languageOf(path: string): string {
+  const match = /\.([^./]+)$/.exec(path);
+  return (match && LANGUAGES[match[1].toLowerCase()]) || 'plaintext';
+}
+
+async function readFile(file: File, path: string): Promise<LocalFile> {
+  return { path, data: new Uint8Array(await file.arrayBuffer()) };
+}
+
+function entryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns at most 100 entries per call: read until empty
+function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const all: FileSystemEntry[] = [];
+  return new Promise((resolve, reject) => {
+    const next = () => reader.readEntries((batch) => {
+      if (batch.length === 0) { resolve(all); return; }
+      all.push(...batch);
+      next();
+    }, reject);
+    next();
+  });
+}
+
+async function collectEntry(entry: FileSystemEntry, out: LocalFile[]): Promise<void> {
+  const path = entry.fullPath.replace(/^\/+/, '');
+  if (IGNORED_PATH.test(path)) return;
+  if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, out);
+    }
+  } else if (entry.isFile) {
+    if (out.length >= MAX_FILES) throw new Error(`Trop de fichiers (max ${MAX_FILES})`);
+    out.push(await readFile(await entryFile(entry as FileSystemFileEntry), path));
+  }
+}
+
+/** Files of a drop or of a file input (folder picker or .zip) */
+export async function readLocalFiles(source: DataTransfer | File[]): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  if (!Array.isArray(source)) {
+    const entries = Array.from(source.items)
+      .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 1 && entries[0].isFile && /\.zip$/i.test(entries[0].name)) {
+      const zip = await entryFile(entries[0] as FileSystemFileEntry);
+      return readZip(await zip.arrayBuffer(), ZIP_LIMITS);
+    }
+    for (const entry of entries) await collectEntry(entry, files);
+    return files;
+  }
+
+  if (source.length === 1 && /\.zip$/i.test(source[0].name)) {
+    return readZip(await source[0].arrayBuffer(), ZIP_LIMITS);
+  }
+  for (const file of source) {
+    // Folder picker: paths relative to the picked folder
+    const path = (file.webkitRelativePath || file.name).replace(/^\/+/, '');
+    if (IGNORED_PATH.test(path)) continue;
+    if (files.length >= MAX_FILES) throw new Error(`Trop de fichiers (max ${MAX_FILES})`);
+    files.push(await readFile(file, path));
+  }
+  return files;
+}
+
+export function parseLocalBundle(files: LocalFile[]): LocalBundle {
+  const kept = files.filter((f) => !IGNORED_PATH.test(f.path));
+  // Shallowest manifest.json: a folder or zip usually wraps the plugin in a directory
+  const manifests = kept
+    .filter((f) => f.path === 'manifest.json' || f.path.endsWith('/manifest.json'))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  if (manifests.length === 0) throw new Error('manifest.json introuvable dans les fichiers deposes');
+  const root = manifests[0].path.slice(0, -'manifest.json'.length);
+
+  const total = kept.reduce((sum, f) => sum + f.data.byteLength, 0);
+  if (total > MAX_TOTAL_SIZE) throw new Error(`Plugin trop volumineux: ${(total / 1024 / 1024).toFixed(1)}Mo (max ${MAX_TOTAL_SIZE / 1024 / 1024}Mo)`);
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const bundleFiles: BundleFile[] = [];
+  const skipped: string[] = [];
+  let manifest: unknown = null;
+  for (const file of kept) {
+    if (!file.path.startsWith(root)) continue;
+    const path = file.path.slice(root.length);
+    let content: string;
+    try {
+      content = decoder.decode(file.data);
+    } catch {
+      skipped.push(path);
+      continue;
+    }
+    if (path === 'manifest.json') {
+      try {
+        manifest = JSON.parse(content);
+      } catch (err) {
+        throw new Error(`manifest.json invalide: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      continue;
+    }
+    bundleFiles.push({ path, content, language: languageOf(path) });
+  }
+
+  return { bundle: parseBundle({ manifest, files: bundleFiles }), skipped };
+}
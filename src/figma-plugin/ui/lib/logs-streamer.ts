@@ -10,12 +10,6 @@ import type { RealtimeChannel } from '@supabase/supabase-js';
 const FLUSH_INTERVAL_MS = 5_000;
 const MAX_BATCH_SIZE = 50;
 
-let channel: RealtimeChannel | null = null;
-let buffer: LogsStreamEntry[] = [];
-let flushTimer: ReturnType<typeof setInterval> | null = null;
-let streamConfig: StreamConfig | null = null;
-let channelReady = false;
-
 interface StreamConfig {
   projectId: string;
   executionId: string;
@@ -32,9 +26,19 @@ interface LogsStreamEntry {
   metadata: Record<string, unknown> | null;
 }
 
-export function startStream(config: StreamConfig): void {
-  stopStream();
-  streamConfig = config; buffer = []; channelReady = false;
+/** Log stream of one execution; concurrent executions each open their own */
+export interface LogsStream {
+  push: (log: LogEntry) => void;
+  stop: () => Promise<void>;
+}
+
+export function createLogsStream(config: StreamConfig): LogsStream {
+  let channel: RealtimeChannel | null = null;
+  let buffer: LogsStreamEntry[] = [];
+  let flushTimer: ReturnType<typeof setInterval> | null = null;
+  let channelReady = false;
+  let stopped = false;
+
   try {
     const sb = getSupabase();
     const channelName = `project:${config.projectId}:logs`;
@@ -44,47 +48,49 @@ export function startStream(config: StreamConfig): void {
     });
   } catch (err) { console.warn('[logs-streamer] Failed to open Realtime channel:', err); channel = null; }
   flushTimer = setInterval(() => { flushBuffer().catch((err) => { console.warn('[logs-streamer] Flush error:', err); }); }, FLUSH_INTERVAL_MS);
-}
 
-export function pushLog(log: LogEntry): void {
-  if (!streamConfig) return;
-  if (channel && channelReady) {
-    try {
-      channel.send({ type: 'broadcast', event: 'execution_log', payload: { execution_id: streamConfig.executionId, project_id: streamConfig.projectId, level: log.level, message: log.message, timestamp: log.timestamp, source: log.source || 'console', stack_trace: log.stackTrace || null } });
-    } catch {}
+  function push(log: LogEntry): void {
+    if (stopped) return;
+    if (channel && channelReady) {
+      try {
+        channel.send({ type: 'broadcast', event: 'execution_log', payload: { execution_id: config.executionId, project_id: config.projectId, level: log.level, message: log.message, timestamp: log.timestamp, source: log.source || 'console', stack_trace: log.stackTrace || null } });
+      } catch {}
+    }
+    buffer.push({ level: log.level, message: log.message, execution_id: config.executionId, timestamp: new Date(log.timestamp).toISOString(), stack_trace: log.stackTrace || null, source: log.source || 'console', metadata: null });
   }
-  buffer.push({ level: log.level, message: log.message, execution_id: streamConfig.executionId, timestamp: new Date(log.timestamp).toISOString(), stack_trace: log.stackTrace || null, source: log.source || 'console', metadata: null });
-}
-
-export async function stopStream(): Promise<void> {
-  if (flushTimer !== null) { clearInterval(flushTimer); flushTimer = null; }
-  if (buffer.length > 0 && streamConfig) { try { await flushBuffer(); } catch (err) { console.warn('[logs-streamer] Final flush error:', err); } }
-  if (channel) { try { const sb = getSupabase(); sb.removeChannel(channel); } catch {} channel = null; channelReady = false; }
-  streamConfig = null; buffer = [];
-}
 
-export function isStreaming(): boolean { return streamConfig !== null; }
+  async function stop(): Promise<void> {
+    if (stopped) return;
+    stopped = true;
+    if (flushTimer !== null) { clearInterval(flushTimer); flushTimer = null; }
+    if (buffer.length > 0) { try { await flushBuffer(); } catch (err) { console.warn('[logs-streamer] Final flush error:', err); } }
+    if (channel) { try { const sb = getSupabase(); sb.removeChannel(channel); } catch {} channel = null; channelReady = false; }
+    buffer = [];
+  }
 
-async function flushBuffer(): Promise<void> {
-  if (buffer.length === 0 || !streamConfig) return;
-  const toFlush = buffer.splice(0);
-  for (let i = 0; i < toFlush.length; i += MAX_BATCH_SIZE) {
-    const batch = toFlush.slice(i, i + MAX_BATCH_SIZE);
-    await sendBatch(batch);
+  async function flushBuffer(): Promise<void> {
+    if (buffer.length === 0) return;
+    const toFlush = buffer.splice(0);
+    for (let i = 0; i < toFlush.length; i += MAX_BATCH_SIZE) {
+      const batch = toFlush.slice(i, i + MAX_BATCH_SIZE);
+      await sendBatch(config, batch);
+    }
   }
+
+  return { push, stop };
 }
 
-async function sendBatch(logs: LogsStreamEntry[]): Promise<void> {
-  if (!streamConfig || logs.length === 0) return;
+async function sendBatch(config: StreamConfig, logs: LogsStreamEntry[]): Promise<void> {
+  if (logs.length === 0) return;
   try {
     const sb = getSupabase();
     const { data: sessionData } = await sb.auth.getSession();
     const accessToken = sessionData?.session?.access_token;
     if (!accessToken) { console.warn('[logs-streamer] No access token, skipping batch insert'); return; }
-    const response = await fetch(`${streamConfig.supabaseUrl}/functions/v1/logs-stream`, {
+    const response = await fetch(`${config.supabaseUrl}/functions/v1/logs-stream`, {
       method: 'POST',
       headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'stream_logs_batch', project_id: streamConfig.projectId, logs }),
+      body: JSON.stringify({ action: 'stream_logs_batch', project_id: config.projectId, logs }),
     });
     if (!response.ok) { const text = await response.text().catch(() => ''); console.warn(`[logs-streamer] logs-stream batch failed (${response.status}): ${text}`); }
     else { const result = await response.json().catch(() => null); if (result && !result.success) console.warn('[logs-streamer] logs-stream returned error:', result.error); }
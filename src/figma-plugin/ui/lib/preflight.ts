@@ -0,0 +1,269 @@
+// ============================================================
+// preflight.ts - Static checks of a bundle before it is run
+//
+// Parses every script of the bundle (and the inline <script> of its
+// HTML files) with the parser of sucrase, already used by
+// transpiler.ts, so syntax errors are reported with their line and
+// column before code.js evaluates anything. The token stream is then
+// scanned for patterns that fail or misbehave in a Figma plugin:
+//   - top-level await: modules are evaluated by a plain `new Function`
+//   - eval()
+//   - sync APIs removed under `documentAccess: "dynamic-page"`
+//   - fetch() of a literal URL outside manifest.networkAccess
+// Errors keep the Run button disabled, warnings are only shown.
+// Runs in ui.html (has fetch, DOM, window).
+// ============================================================
+
+// Not part of the public API of sucrase, but stable since 3.x
+import { parse } from 'sucrase/dist/esm/parser';
+import type { Token } from 'sucrase/dist/esm/parser/tokenizer';
+import type { Scope } from 'sucrase/dist/esm/parser/tokenizer/state';
+import { TokenType as tt } from 'sucrase/dist/esm/parser/tokenizer/types';
+import type { BundleDiagnostic, BundleFile, ParsedBundle } from '../../plugin/types/runner.types';
+import { createNetworkPolicy } from '../../plugin/services/network-access.service';
+import type { NetworkPolicy } from '../../plugin/services/network-access.service';
+
+/** Findings per file past which the rest is summed up */
+const MAX_FINDINGS_PER_FILE = 20;
+
+const SCRIPT_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts', '.cts', '.tsx', '.jsx'];
+const HTML_EXTENSIONS = ['.html', '.htm'];
+// Classic and module scripts; other types (templates, JSON data) are not run
+const SCRIPT_TYPES = ['', 'text/javascript', 'application/javascript', 'module'];
+
+// figma.X / figma.variables.X sync calls not available with dynamic-page
+const DYNAMIC_PAGE_REPLACEMENTS: Record<string, string> = {
+  'figma.getNodeById': 'figma.getNodeByIdAsync',
+  'figma.getStyleById': 'figma.getStyleByIdAsync',
+  'figma.getLocalPaintStyles': 'figma.getLocalPaintStylesAsync',
+  'figma.getLocalTextStyles': 'figma.getLocalTextStylesAsync',
+  'figma.getLocalEffectStyles': 'figma.getLocalEffectStylesAsync',
+  'figma.getLocalGridStyles': 'figma.getLocalGridStylesAsync',
+  'figma.getFileThumbnailNode': 'figma.getFileThumbnailNodeAsync',
+  'figma.variables.getVariableById': 'figma.variables.getVariableByIdAsync',
+  'figma.variables.getVariableCollectionById': 'figma.variables.getVariableCollectionByIdAsync',
+  'figma.variables.getLocalVariables': 'figma.variables.getLocalVariablesAsync',
+  'figma.variables.getLocalVariableCollections': 'figma.variables.getLocalVariableCollectionsAsync',
+};
+
+interface ScriptSource {
+  path: string;
+  code: string;
+  /** Position of the code in its file, for inline <script> */
+  lineOffset: number;
+  columnOffset: number;
+  jsx: boolean;
+  typescript: boolean;
+  /** Plugin code (code.js side) rather than UI script */
+  sandbox: boolean;
+  /** <script type="module">: top-level await is valid */
+  module: boolean;
+}
+
+interface ScanContext {
+  policy: NetworkPolicy;
+  dynamicPage: boolean;
+}
+
+function extname(path: string): string {
+  const match = /\.[^./]+$/.exec(path);
+  return match ? match[0].toLowerCase() : '';
+}
+
+function locate(code: string, index: number): { line: number; column: number } {
+  const before = code.slice(0, index);
+  const line = before.split('\n').length;
+  return { line, column: index - before.lastIndexOf('\n') };
+}
+
+function inlineScripts(file: BundleFile): ScriptSource[] {
+  const scripts: ScriptSource[] = [];
+  const pattern = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(file.content)) !== null) {
+    const attrs = match[1];
+    if (/\bsrc\s*=/i.test(attrs)) continue;
+    const typeMatch = /\btype\s*=\s*["']?([^"'\s>]*)/i.exec(attrs);
+    const type = typeMatch ? typeMatch[1].toLowerCase() : '';
+    if (SCRIPT_TYPES.indexOf(type) === -1) continue;
+    const start = locate(file.content, match.index + match[0].indexOf('>') + 1);
+    scripts.push({
+      path: file.path,
+      code: match[2],
+      lineOffset: start.line - 1,
+      columnOffset: start.column - 1,
+      jsx: false,
+      typescript: false,
+      sandbox: false,
+      module: type === 'module',
+    });
+  }
+  return scripts;
+}
+
+function scriptSources(files: BundleFile[]): ScriptSource[] {
+  const sources: ScriptSource[] = [];
+  for (const file of files) {
+    const ext = extname(file.path);
+    if (SCRIPT_EXTENSIONS.indexOf(ext) !== -1) {
+      sources.push({
+        path: file.path,
+        code: file.content,
+        lineOffset: 0,
+        columnOffset: 0,
+        jsx: ext === '.jsx' || ext === '.tsx',
+        typescript: ext === '.ts' || ext === '.mts' || ext === '.cts' || ext === '.tsx',
+        sandbox: true,
+        module: false,
+      });
+    } else if (HTML_EXTENSIONS.indexOf(ext) !== -1) {
+      sources.push(...inlineScripts(file));
+    }
+  }
+  return sources;
+}
+
+/** Literal value of a string or substitution-free template token run */
+function literalAt(code: string, tokens: Token[], index: number): string | null {
+  const token = tokens[index];
+  if (!token) return null;
+  if (token.type === tt.string) return code.slice(token.start + 1, token.end - 1);
+  if (token.type === tt.backQuote && tokens[index + 1]?.type === tt.template && tokens[index + 2]?.type === tt.backQuote) {
+    const template = tokens[index + 1];
+    return code.slice(template.start, template.end);
+  }
+  return null;
+}
+
+/** `figma.a.b` name ending at tokens[index], null when not a figma member chain */
+function figmaChainAt(code: string, tokens: Token[], index: number): string | null {
+  const parts: string[] = [];
+  let i = index;
+  while (i >= 0 && tokens[i].type === tt.name) {
+    parts.unshift(code.slice(tokens[i].start, tokens[i].end));
+    if (tokens[i - 1]?.type !== tt.dot) break;
+    i -= 2;
+  }
+  return parts[0] === 'figma' && parts.length > 1 ? parts.join('.') : null;
+}
+
+function isInFunction(scopes: Scope[], tokenCount: number, index: number): boolean {
+  return scopes.some((s) => s.isFunctionScope
+    // The program scope covers every token
+    && !(s.startTokenIndex === 0 && s.endTokenIndex >= tokenCount - 1)
+    && index >= s.startTokenIndex && index < s.endTokenIndex);
+}
+
+function scanTokens(source: ScriptSource, tokens: Token[], scopes: Scope[], ctx: ScanContext, report: (index: number, message: string, severity: BundleDiagnostic['severity']) => void): void {
+  const { code } = source;
+  const text = (i: number) => (tokens[i] ? code.slice(tokens[i].start, tokens[i].end) : '');
+
+  tokens.forEach((token, i) => {
+    if (token.isType || token.type !== tt.name) return;
+    const name = text(i);
+    const member = tokens[i - 1]?.type === tt.dot;
+    const called = tokens[i + 1]?.type === tt.parenL;
+
+    if (name === 'await' && !member && !source.module && !isInFunction(scopes, tokens.length, i)) {
+      // `await` is only a keyword when an expression follows
+      const next = tokens[i + 1];
+      if (next && next.type !== tt.eq && next.type !== tt.dot && next.type !== tt.comma && next.type !== tt.semi && next.type !== tt.parenR) {
+        report(i, 'await au niveau superieur: le code n\'est pas evalue dans une fonction async, placez-le dans une fonction async', 'error');
+      }
+      return;
+    }
+
+    if (name === 'eval' && !member && called) {
+      report(i, 'eval() est a eviter dans un plugin Figma: code non analysable, refuse a la revue', 'warning');
+      return;
+    }
+
+    if (name === 'fetch' && called && (!member || text(i - 2) === 'window')) {
+      const url = literalAt(code, tokens, i + 2);
+      if (url === null || !/^[a-z][a-z0-9+.-]*:/i.test(url)) return;
+      const verdict = ctx.policy.check(url);
+      if (verdict === 'blocked') {
+        report(i, `fetch ${url}: domaine non declare dans manifest.networkAccess (${ctx.policy.sources})`, 'warning');
+      } else if (verdict === 'dev-only') {
+        report(i, `fetch ${url}: autorise par devAllowedDomains seulement, bloque une fois publie`, 'warning');
+      }
+      return;
+    }
+
+    if (!source.sandbox || !ctx.dynamicPage) return;
+    const chain = figmaChainAt(code, tokens, i);
+    if (!chain) return;
+    const replacement = DYNAMIC_PAGE_REPLACEMENTS[chain];
+    if (replacement && called) {
+      report(i, `${chain}() n'existe pas avec documentAccess: "dynamic-page", utilisez await ${replacement}()`, 'error');
+    } else if (chain === 'figma.currentPage' && tokens[i + 1]?.type === tt.eq) {
+      report(i, 'figma.currentPage = ... n\'est pas supporte avec documentAccess: "dynamic-page", utilisez await figma.setCurrentPageAsync()', 'error');
+    }
+  });
+}
+
+function analyzeSource(source: ScriptSource, ctx: ScanContext): BundleDiagnostic[] {
+  const diagnostics: BundleDiagnostic[] = [];
+  const at = (line: number, column: number) => ({
+    line: line + source.lineOffset,
+    column: line === 1 ? column + source.columnOffset : column,
+  });
+
+  let file: ReturnType<typeof parse>;
+  try {
+    file = parse(source.code, source.jsx, source.typescript, false);
+  } catch (err) {
+    const e = err as { message?: string; loc?: { line: number; column: number } };
+    const { line, column } = at(e?.loc?.line ?? 1, (e?.loc?.column ?? 0) + 1);
+    diagnostics.push({
+      path: source.path,
+      line,
+      column,
+      message: `Erreur de syntaxe: ${(e?.message || String(err)).replace(/ \(\d+:\d+\)$/, '')}`,
+      severity: 'error',
+    });
+    return diagnostics;
+  }
+
+  scanTokens(source, file.tokens, file.scopes, ctx, (index, message, severity) => {
+    const loc = locate(source.code, file.tokens[index].start);
+    diagnostics.push({ path: source.path, ...at(loc.line, loc.column), message, severity });
+  });
+  return diagnostics;
+}
+
+export function analyzeBundle(bundle: ParsedBundle): BundleDiagnostic[] {
+  const ctx: ScanContext = {
+    policy: createNetworkPolicy(bundle.manifest.networkAccess ?? null),
+    dynamicPage: bundle.manifest.documentAccess === 'dynamic-page',
+  };
+
+  const byPath = new Map<string, BundleDiagnostic[]>();
+  for (const source of scriptSources(bundle.files)) {
+    const list = byPath.get(source.path) ?? [];
+    list.push(...analyzeSource(source, ctx));
+    byPath.set(source.path, list);
+  }
+
+  const diagnostics: BundleDiagnostic[] = [];
+  byPath.forEach((list, path) => {
+    // Errors first: a long list of warnings must not hide them
+    list.sort((a, b) => (a.severity === b.severity ? a.line - b.line : a.severity === 'error' ? -1 : 1));
+    diagnostics.push(...list.slice(0, MAX_FINDINGS_PER_FILE));
+    if (list.length > MAX_FINDINGS_PER_FILE) {
+      const rest = list.slice(MAX_FINDINGS_PER_FILE);
+      diagnostics.push({
+        path,
+        line: rest[0].line,
+        column: rest[0].column,
+        message: `+ ${rest.length} autre${rest.length > 1 ? 's' : ''} signalement${rest.length > 1 ? 's' : ''} dans ce fichier`,
+        severity: rest.some((d) => d.severity === 'error') ? 'error' : 'warning',
+      });
+    }
+  });
+  return diagnostics;
+}
+
+export function hasBlockingDiagnostics(diagnostics: BundleDiagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === 'error');
+}
@@ -1,5 +1,16 @@
 // ============================================================
 // proxy-fetch.ts - US-RUN-07: UI-side proxy fetch handler
+//
+// The edge proxy envelope is JSON: binary request bodies are sent
+// base64 encoded in `body_base64`, and `accept_binary` lets the proxy
+// answer with `{ data: <base64>, encoding: 'base64' }` for non-text
+// content. Bodies go back to code.js as a string (text) or a
+// Uint8Array (binary), both supported by the plugin postMessage.
+// Binary content in an envelope without `encoding` means the proxy
+// predates this contract: the request fails instead of handing back
+// mangled bytes. The contract is described in README.md.
+// `url` and `redirected` of the envelope describe the final target
+// after redirects, for response.url / response.redirected.
 // Runs in ui.html (has real fetch, DOM, window).
 // ============================================================
 
@@ -12,7 +23,7 @@ export interface ProxyFetchRequest {
   url: string;
   method: string;
   headers: Record<string, string>;
-  body: string | null;
+  body: string | Uint8Array | null;
 }
 
 export interface ProxyFetchResponse {
@@ -21,13 +32,22 @@ export interface ProxyFetchResponse {
   status: number;
   statusText: string;
   headers: Record<string, string>;
-  body: string | null;
+  body: string | Uint8Array | null;
+  /** Final URL after redirects */
+  url?: string;
+  redirected?: boolean;
   error?: string;
 }
 
+// Content types read as text; anything else is passed on as bytes
+const TEXT_CONTENT_TYPE = /^text\/|[/+](json|xml|javascript|ecmascript|x-www-form-urlencoded)\b/i;
+const BASE64_CHUNK = 0x8000;
+
+/** `signal` aborts the call to the edge proxy (PROXY_FETCH_ABORT from code.js) */
 export async function executeProxyFetch(
   request: ProxyFetchRequest,
   supabaseUrl: string,
+  signal?: AbortSignal,
 ): Promise<ProxyFetchResponse> {
   try {
     const sb = getSupabase();
@@ -36,15 +56,25 @@ export async function executeProxyFetch(
     if (!accessToken) return errorResponse(request.requestId, 'No auth session \u2014 cannot proxy fetch');
 
     const proxyUrl = `${supabaseUrl}${PROXY_EDGE_FUNCTION}`;
-    const proxyPayload: Record<string, unknown> = { target_url: request.url, method: request.method, headers: request.headers };
-    if (request.body != null) proxyPayload.body = tryParseJSON(request.body);
+    const proxyPayload: Record<string, unknown> = { target_url: request.url, method: request.method, headers: request.headers, accept_binary: true };
+    if (typeof request.body === 'string') proxyPayload.body = tryParseJSON(request.body);
+    else if (request.body) proxyPayload.body_base64 = encodeBase64(request.body);
 
     const response = await fetch(proxyUrl, {
       method: 'POST',
       headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify(proxyPayload),
+      signal,
     });
 
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => { responseHeaders[key] = value; });
+    // Not the proxy envelope (proxy bypassed or answering raw): binary passes through
+    if (!isText(responseHeaders['content-type'])) {
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      return { requestId: request.requestId, ok: response.ok, status: response.status, statusText: response.statusText, headers: responseHeaders, body: bytes, url: request.url, redirected: false };
+    }
+
     const rawBody = await response.text();
     let envelope: any = null;
     try { envelope = JSON.parse(rawBody); } catch {}
@@ -55,13 +85,19 @@ export async function executeProxyFetch(
       const targetStatus = (envelope.status as number) || response.status;
       const targetOk = targetStatus >= 200 && targetStatus < 300;
       const targetHeaders = (envelope.headers || {}) as Record<string, string>;
-      const targetBody = typeof envelope.data === 'string' ? envelope.data : JSON.stringify(envelope.data);
-      return { requestId: request.requestId, ok: targetOk, status: targetStatus, statusText: targetOk ? 'OK' : `HTTP ${targetStatus}`, headers: targetHeaders, body: targetBody };
+      const targetType = headerValue(targetHeaders, 'content-type');
+      // A proxy without binary support returns binary content as (mangled) text
+      if (envelope.encoding !== 'base64' && !isText(targetType)) {
+        return errorResponse(request.requestId, `${request.url} returned binary content (${targetType}) but the proxy answered without 'encoding': it does not support accept_binary, see README "Proxy edge function"`);
+      }
+      const targetBody = envelope.encoding === 'base64' && typeof envelope.data === 'string'
+        ? decodeBase64(envelope.data)
+        : typeof envelope.data === 'string' ? envelope.data : JSON.stringify(envelope.data);
+      const targetUrl = typeof envelope.url === 'string' && envelope.url ? envelope.url : request.url;
+      return { requestId: request.requestId, ok: targetOk, status: targetStatus, statusText: targetOk ? 'OK' : `HTTP ${targetStatus}`, headers: targetHeaders, body: targetBody, url: targetUrl, redirected: envelope.redirected === true };
     }
 
-    const responseHeaders: Record<string, string> = {};
-    response.headers.forEach((value, key) => { responseHeaders[key] = value; });
-    return { requestId: request.requestId, ok: response.ok, status: response.status, statusText: response.statusText, headers: responseHeaders, body: rawBody };
+    return { requestId: request.requestId, ok: response.ok, status: response.status, statusText: response.statusText, headers: responseHeaders, body: rawBody, url: request.url, redirected: false };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     console.warn(`[proxy-fetch-ui] Error for ${request.method} ${request.url}: ${message}`);
@@ -76,3 +112,29 @@ function errorResponse(requestId: string, error: string): ProxyFetchResponse {
 function tryParseJSON(str: string): unknown {
   try { return JSON.parse(str); } catch { return str; }
 }
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+function isText(contentType: string | undefined): boolean {
+  // No content type: treated as text, like the proxy envelope
+  return !contentType || TEXT_CONTENT_TYPE.test(contentType);
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked: String.fromCharCode.apply overflows the stack on large bodies
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + BASE64_CHUNK)));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
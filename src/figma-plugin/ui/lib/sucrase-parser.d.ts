@@ -0,0 +1,23 @@
+// ============================================================
+// sucrase-parser.d.ts - Typings of the sucrase parser internals
+//
+// sucrase ships the declarations of its parser under dist/types/
+// but no package "exports" pointing there: map the runtime paths
+// used by preflight.ts to them.
+// ============================================================
+
+declare module 'sucrase/dist/esm/parser' {
+  export * from 'sucrase/dist/types/parser';
+}
+
+declare module 'sucrase/dist/esm/parser/tokenizer' {
+  export * from 'sucrase/dist/types/parser/tokenizer';
+}
+
+declare module 'sucrase/dist/esm/parser/tokenizer/state' {
+  export * from 'sucrase/dist/types/parser/tokenizer/state';
+}
+
+declare module 'sucrase/dist/esm/parser/tokenizer/types' {
+  export * from 'sucrase/dist/types/parser/tokenizer/types';
+}
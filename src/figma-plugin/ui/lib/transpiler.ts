@@ -0,0 +1,162 @@
+// ============================================================
+// transpiler.ts - In-runner TypeScript / JSX / ES module transpilation
+// Runs in ui.html, before EXECUTE_PLUGIN is sent to code.js.
+// Sucrase keeps line numbers intact, so runtime errors still
+// point at the right line of the original source.
+//
+// Scripts using import / export (or a dynamic import()) are turned
+// into CommonJS by the `imports` transform of sucrase: imported names
+// stay live bindings and strings or templates are never rewritten.
+// Scripts without module syntax (a prebuilt code.js...) are left
+// untouched, code.js evaluates them as they are.
+// ============================================================
+
+import { transform } from 'sucrase';
+import type { Transform } from 'sucrase';
+// Not part of the public API of sucrase, but stable since 3.x (see preflight.ts)
+import { parse } from 'sucrase/dist/esm/parser';
+import { IdentifierRole } from 'sucrase/dist/esm/parser/tokenizer';
+import type { Token } from 'sucrase/dist/esm/parser/tokenizer';
+import { TokenType as tt } from 'sucrase/dist/esm/parser/tokenizer/types';
+import type { BundleFile, BundleDiagnostic } from '../../plugin/types/runner.types';
+
+export interface TranspileResult {
+  files: BundleFile[];
+  diagnostics: BundleDiagnostic[];
+}
+
+const TRANSFORMS_BY_EXTENSION: Record<string, Transform[]> = {
+  '.js': [],
+  '.mjs': [],
+  '.cjs': [],
+  '.ts': ['typescript'],
+  '.mts': ['typescript'],
+  '.cts': ['typescript'],
+  '.tsx': ['typescript', 'jsx'],
+  '.jsx': ['jsx'],
+};
+
+const TRANSFORMS_BY_LANGUAGE: Record<string, Transform[]> = {
+  javascript: [],
+  js: [],
+  typescript: ['typescript'],
+  ts: ['typescript'],
+  tsx: ['typescript', 'jsx'],
+  typescriptreact: ['typescript', 'jsx'],
+  jsx: ['jsx'],
+  javascriptreact: ['jsx'],
+};
+
+function getTransforms(file: BundleFile): Transform[] | null {
+  const match = /\.[^./]+$/.exec(file.path);
+  const ext = match ? match[0].toLowerCase() : '';
+  return TRANSFORMS_BY_EXTENSION[ext] || TRANSFORMS_BY_LANGUAGE[(file.language || '').toLowerCase()] || null;
+}
+
+function toDiagnostic(path: string, err: unknown): BundleDiagnostic {
+  const e = err as { message?: string; loc?: { line: number; column: number } };
+  const message = (e?.message || String(err))
+    .replace(/^Error transforming [^:]*: /, '')
+    .replace(/ \(\d+:\d+\)$/, '');
+  return {
+    path,
+    line: e?.loc?.line ?? 1,
+    column: (e?.loc?.column ?? 0) + 1,
+    message,
+    severity: 'error',
+  };
+}
+
+/** import / export declarations or import(): `import.meta` alone is not module syntax code.js can run */
+function usesModuleSyntax(tokens: Token[]): boolean {
+  return tokens.some((token, i) => !token.isType && (
+    token.type === tt._export
+    || (token.type === tt._import && tokens[i + 1]?.type !== tt.dot)
+  ));
+}
+
+const DECLARATION_ROLES = [IdentifierRole.TopLevelDeclaration, IdentifierRole.ObjectShorthandTopLevelDeclaration];
+
+/**
+ * sucrase drops the declarators after the first one of an exported
+ * declaration list (`export const a = 1, b = 2` exports neither
+ * binding correctly). Such lists become a plain declaration followed
+ * by `export { a, b }` on the same line, which sucrase handles.
+ */
+function splitExportedDeclarations(code: string, tokens: Token[]): string {
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type !== tt._export || token.isType) return;
+    const keyword = tokens[index + 1]?.type;
+    if (keyword !== tt._const && keyword !== tt._let && keyword !== tt._var) return;
+
+    let i = index + 2;
+    let declarators = 0;
+    while (i < tokens.length) {
+      declarators++;
+      // Binding: a name or a destructuring pattern
+      if (tokens[i].type === tt.braceL || tokens[i].type === tt.bracketL) {
+        let depth = 0;
+        do {
+          const type = tokens[i].type;
+          if (type === tt.braceL || type === tt.bracketL || type === tt.dollarBraceL) depth++;
+          else if (type === tt.braceR || type === tt.bracketR) depth--;
+          i++;
+        } while (depth > 0 && i < tokens.length);
+      } else {
+        i++;
+      }
+      // Type annotation, then the initializer
+      while (i < tokens.length && tokens[i].isType) i++;
+      if (tokens[i]?.type === tt.eq && tokens[i].rhsEndIndex !== null) i = tokens[i].rhsEndIndex as number;
+      if (tokens[i]?.type !== tt.comma) break;
+      i++;
+    }
+    if (declarators < 2) return;
+
+    const names = tokens
+      .slice(index + 2, i)
+      .filter((t) => !t.isType && t.identifierRole !== null && DECLARATION_ROLES.indexOf(t.identifierRole) !== -1)
+      .map((t) => code.slice(t.start, t.end));
+    const last = tokens[i]?.type === tt.semi ? tokens[i] : tokens[i - 1];
+    edits.push({ start: token.start, end: token.end, text: ' '.repeat(token.end - token.start) });
+    edits.push({ start: last.end, end: last.end, text: `${last.type === tt.semi ? '' : ';'} export { ${names.join(', ')} };` });
+  });
+
+  let out = code;
+  for (let k = edits.length - 1; k >= 0; k--) {
+    const { start, end, text } = edits[k];
+    out = out.slice(0, start) + text + out.slice(end);
+  }
+  return out;
+}
+
+function transpileFile(file: BundleFile, transforms: Transform[]): string {
+  const isTypeScript = transforms.indexOf('typescript') !== -1;
+  const isJsx = transforms.indexOf('jsx') !== -1;
+  const { tokens } = parse(file.content, isJsx, isTypeScript, false);
+
+  if (!usesModuleSyntax(tokens)) {
+    if (transforms.length === 0) return file.content;
+    return transform(file.content, { transforms, filePath: file.path, disableESTransforms: true }).code;
+  }
+  const source = splitExportedDeclarations(file.content, tokens);
+  return transform(source, { transforms: [...transforms, 'imports'], filePath: file.path, disableESTransforms: true }).code;
+}
+
+export function transpileBundle(files: BundleFile[]): TranspileResult {
+  const diagnostics: BundleDiagnostic[] = [];
+  const out = files.map((file) => {
+    const transforms = getTransforms(file);
+    if (!transforms) return file;
+    try {
+      const code = transpileFile(file, transforms);
+      return code === file.content ? file : { ...file, content: code, language: 'javascript' };
+    } catch (err) {
+      diagnostics.push(toDiagnostic(file.path, err));
+      return file;
+    }
+  });
+  return { files: out, diagnostics };
+}
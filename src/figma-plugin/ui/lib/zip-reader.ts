@@ -0,0 +1,148 @@
+// ============================================================
+// zip-reader.ts - Minimal .zip extraction for local plugin builds
+//
+// Reads the central directory and inflates entries with the
+// browser's DecompressionStream('deflate-raw'): stored and deflated
+// entries only, no ZIP64, no encryption. Enough for the archives
+// produced by OS "compress" actions and build tools.
+// The limits are checked before anything is inflated (entry count and
+// sizes declared by the central directory) and while inflating, since
+// declared sizes can lie: a zip bomb stops at the size cap.
+// Runs in ui.html (has fetch, DOM, window).
+// ============================================================
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ZipLimits {
+  maxFiles: number;
+  /** Total uncompressed size of the kept entries, in bytes */
+  maxTotalSize: number;
+  /** Entries left out without being inflated nor counted */
+  ignore?: (path: string) => boolean;
+}
+
+interface CentralEntry {
+  path: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - EOCD_MIN_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_SIZE);
+  for (let i = last; i >= first; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error('Archive zip invalide (repertoire central introuvable)');
+}
+
+function tooLarge(maxTotalSize: number): Error {
+  return new Error(`Plugin trop volumineux (max ${maxTotalSize / 1024 / 1024}Mo decompresses)`);
+}
+
+/** Inflates at most `limit` bytes: stops reading as soon as the output goes past it */
+async function inflateRaw(data: Uint8Array<ArrayBuffer>, limit: number, maxTotalSize: number): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Decompression zip non disponible dans ce navigateur');
+  }
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > limit) {
+      await reader.cancel();
+      throw tooLarge(maxTotalSize);
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+export async function readZip(buffer: ArrayBuffer, limits: ZipLimits): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  if (view.byteLength < EOCD_MIN_SIZE) throw new Error('Archive zip invalide (fichier trop court)');
+
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error('Archives ZIP64 non supportees');
+
+  const utf8 = new TextDecoder('utf-8');
+  const cp437 = new TextDecoder('latin1');
+  const central: CentralEntry[] = [];
+  let declaredSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Archive zip invalide (entree corrompue)');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    // Bit 11: UTF-8 names, CP437 otherwise (latin1 is close enough for paths)
+    const path = (flags & 0x800 ? utf8 : cp437).decode(nameBytes);
+    const entry: CentralEntry = {
+      path,
+      flags,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    };
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+
+    if (path.endsWith('/') || limits.ignore?.(path)) continue;
+    central.push(entry);
+    if (central.length > limits.maxFiles) throw new Error(`Trop de fichiers (max ${limits.maxFiles})`);
+    declaredSize += entry.size;
+    if (declaredSize > limits.maxTotalSize) throw tooLarge(limits.maxTotalSize);
+  }
+
+  const entries: ZipEntry[] = [];
+  let total = 0;
+  for (const { path, flags, method, compressedSize, localOffset } of central) {
+    if (flags & 0x1) throw new Error(`${path}: archives chiffrees non supportees`);
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error(`${path}: entree zip corrompue`);
+
+    // Name / extra lengths of the local header may differ from the central ones
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = raw.slice();
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflateRaw(raw, limits.maxTotalSize - total, limits.maxTotalSize);
+    } else {
+      throw new Error(`${path}: methode de compression ${method} non supportee`);
+    }
+    total += data.byteLength;
+    if (total > limits.maxTotalSize) throw tooLarge(limits.maxTotalSize);
+    entries.push({ path, data });
+  }
+  return entries;
+}